@@ -0,0 +1,147 @@
+/**
+ * A snapshot of the advisories for the packages in a lockfile, taken from the
+ * registry on a machine with network access so that dependencies can be
+ * audited where the registry cannot be reached.
+ */
+import { readFile, writeFile } from 'fs/promises';
+import http from 'http';
+import https from 'https';
+import mkdirp from 'mkdirp';
+import path from 'path';
+
+import { isExistingFile } from './SubCommandHelpers';
+
+// The registry that advisories are taken from by default
+export const DEFAULT_ADVISORY_REGISTRY = 'https://registry.npmjs.org';
+
+// The endpoint of the registry that reports the advisories for packages
+const BULK_ADVISORY_ENDPOINT = '/-/npm/v1/security/advisories/bulk';
+
+// The most packages whose advisories are requested at a time
+const PACKAGES_PER_REQUEST = 500;
+
+/**
+ * An advisory as reported by the registry's bulk advisory endpoint
+ */
+export interface DatabaseAdvisory {
+  id: number;
+  title: string;
+  url: string;
+  severity: string;
+  vulnerable_versions: string;
+}
+
+/**
+ * A snapshot of the advisories for a set of packages
+ */
+export interface AdvisoryDatabase {
+  // When the snapshot was taken and the registry it was taken from
+  updated: string;
+  registry: string;
+
+  // The versions of each package that were checked for advisories
+  packages: Record<string, string[]>;
+
+  // The advisories for each package that has any
+  advisories: Record<string, DatabaseAdvisory[]>;
+}
+
+/**
+ * Load a snapshot of advisories
+ *
+ * @param file - the file the snapshot is stored in
+ * @returns the snapshot
+ */
+export async function loadAdvisoryDatabase(file: string): Promise<AdvisoryDatabase> {
+  if (!(await isExistingFile(file))) {
+    throw new Error(`The advisory database ${file} does not exist, use "jetsam audit update-database" to create it`);
+  }
+
+  let database: AdvisoryDatabase;
+  try {
+    database = JSON.parse(await readFile(file, 'utf8'));
+  } catch (err) {
+    throw new Error(`Failed to read advisory database ${file}: ${err}`);
+  }
+  if (typeof database.packages !== 'object' || typeof database.advisories !== 'object') {
+    throw new Error(`The advisory database ${file} is not valid, use "jetsam audit update-database" to recreate it`);
+  }
+  return database;
+}
+
+/**
+ * Write a snapshot of advisories
+ *
+ * @param file - the file to store the snapshot in
+ * @param database - the snapshot
+ * @returns a promise resolved when complete
+ */
+export async function writeAdvisoryDatabase(file: string, database: AdvisoryDatabase): Promise<void> {
+  await mkdirp(path.dirname(file));
+  await writeFile(file, JSON.stringify(database, null, 2) + '\n', 'utf8');
+}
+
+/**
+ * Take a snapshot of the advisories for packages from a registry
+ *
+ * @param packages - the versions of each package to check
+ * @param registry - the URL of the registry
+ * @returns the snapshot
+ */
+export async function fetchAdvisoryDatabase(
+  packages: Record<string, string[]>,
+  registry = DEFAULT_ADVISORY_REGISTRY
+): Promise<AdvisoryDatabase> {
+  const url = `${registry.replace(/\/+$/, '')}${BULK_ADVISORY_ENDPOINT}`;
+  const names = Object.keys(packages).sort();
+  const database: AdvisoryDatabase = { updated: new Date().toISOString(), registry, packages: {}, advisories: {} };
+
+  for (let start = 0; start < names.length; start += PACKAGES_PER_REQUEST) {
+    const request: Record<string, string[]> = {};
+    for (const name of names.slice(start, start + PACKAGES_PER_REQUEST)) {
+      request[name] = packages[name];
+      database.packages[name] = packages[name];
+    }
+
+    const response: Record<string, DatabaseAdvisory[]> = await postJson(url, request);
+    for (const [name, advisories] of Object.entries(response)) {
+      if (advisories.length > 0) {
+        database.advisories[name] = advisories;
+      }
+    }
+  }
+  return database;
+}
+
+/**
+ * Post a JSON request and read the JSON response
+ *
+ * @param url - the URL to post to
+ * @param body - the body of the request
+ * @returns the response
+ */
+function postJson(url: string, body: unknown): Promise<any> {
+  const data = JSON.stringify(body);
+  const headers = { 'content-type': 'application/json', 'content-length': Buffer.byteLength(data) };
+  return new Promise((resolve, reject) => {
+    const request = (url.startsWith('https:') ? https : http).request(url, { method: 'POST', headers }, (response) => {
+      const buffers: Buffer[] = [];
+      response.on('data', (buffer) => buffers.push(buffer));
+      response.on('end', () => {
+        const text = Buffer.concat(buffers).toString();
+        if (response.statusCode !== 200) {
+          reject(new Error(`${url} responded with status ${response.statusCode}: ${text}`));
+          return;
+        }
+
+        try {
+          resolve(JSON.parse(text));
+        } catch (err) {
+          reject(new Error(`Failed to parse the response from ${url}: ${err}`));
+        }
+      });
+    });
+    request.on('error', (err) => reject(new Error(`Failed to request ${url}: ${err.message}`)));
+    request.end(data);
+  });
+}
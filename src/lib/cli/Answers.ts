@@ -0,0 +1,171 @@
+/**
+ * Support for answering the questions asked by sub-commands without prompting
+ * the user so that they can be run unattended, for example in CI pipelines.
+ */
+import { readFile } from 'fs/promises';
+import path from 'path';
+import YAML from 'yaml';
+import { Arguments, Argv } from 'yargs';
+
+import { confirm, getInput } from './SubCommandHelpers';
+
+/**
+ * Add the command-line options used to supply answers to a sub-command
+ *
+ * @param yargs - the yargs instance being configured
+ * @returns the configured yargs instance
+ */
+export function addAnswerOptions(yargs: Argv): Argv {
+  return yargs
+    .option('yes', {
+      alias: 'y',
+      description: 'Answer yes to all confirmations and accept the default for other questions',
+      type: 'boolean',
+    })
+    .option('answer', {
+      alias: 'a',
+      description: 'Answer a question without prompting, given as <question>=<answer>',
+      type: 'array',
+      string: true,
+    })
+    .option('answers', {
+      description: 'A JSON or YAML file mapping question names to their answers',
+      type: 'string',
+    });
+}
+
+/**
+ * Provides the answers to questions asked by a sub-command. Each question has
+ * a name that is used to look up its answer and, when no answer has been
+ * supplied, the user is prompted for it provided stdin is a terminal.
+ */
+export class Answers {
+  /**
+   * Constructor
+   *
+   * @param answers - map from the question name to its answer
+   * @param assumeYes - true if all confirmations are to be answered with yes
+   */
+  public constructor(private readonly answers: Record<string, string> = {}, private readonly assumeYes = false) {}
+
+  /**
+   * Build the answers from the command-line arguments. Answers given on the
+   * command-line take precedence over those in an answers file.
+   *
+   * @param args - the command-line arguments
+   * @param extra - additional answers taken from sub-command specific options
+   * @returns the answers
+   */
+  public static async fromArgs(args: Arguments, extra: Record<string, unknown> = {}): Promise<Answers> {
+    const answers: Record<string, string> = {};
+
+    if (args.answers !== undefined) {
+      const file = args.answers as string;
+      let contents: unknown;
+      try {
+        const text = await readFile(file, 'utf8');
+        contents = path.extname(file) === '.json' ? JSON.parse(text) : YAML.parse(text);
+      } catch (err) {
+        throw new Error(`Failed to read answers file ${file}: ${err}`);
+      }
+
+      if (contents === null || typeof contents !== 'object' || Array.isArray(contents)) {
+        throw new Error(`Answers file ${file} must contain a map of question names to answers`);
+      }
+      for (const [name, answer] of Object.entries(contents as Record<string, unknown>)) {
+        answers[name] = Answers.normalise(answer);
+      }
+    }
+
+    for (const entry of (args.answer as string[] | undefined) ?? []) {
+      const separator = entry.indexOf('=');
+      if (separator < 1) {
+        throw new Error(`Answer "${entry}" is not in the form <question>=<answer>`);
+      }
+      answers[entry.slice(0, separator)] = entry.slice(separator + 1);
+    }
+
+    for (const [name, answer] of Object.entries(extra)) {
+      if (answer !== undefined) {
+        answers[name] = Answers.normalise(answer);
+      }
+    }
+
+    return new Answers(answers, args.yes === true);
+  }
+
+  /**
+   * Get a yes/no confirmation
+   *
+   * @param name - the name of the question
+   * @param prompt - the prompt to display if the user needs to be asked
+   * @param defaultChoice - optional default choice
+   * @returns true if the question is positively confirmed
+   */
+  public async confirm(name: string, prompt: string, defaultChoice?: boolean): Promise<boolean> {
+    const answer = this.answers[name];
+    if (answer !== undefined) {
+      if (answer !== 'yes' && answer !== 'no') {
+        throw new Error(`The answer "${answer}" to question "${name}" must be one of yes or no`);
+      }
+      return answer === 'yes';
+    }
+
+    if (this.assumeYes) {
+      return true;
+    }
+
+    this.ensureCanPrompt(name);
+    return confirm(prompt, defaultChoice);
+  }
+
+  /**
+   * Get the input for a question
+   *
+   * @param name - the name of the question
+   * @param prompt - the prompt to display if the user needs to be asked
+   * @param choices - optional list of valid choices
+   * @param defaultChoice - optional default choice
+   * @returns the answer
+   */
+  public async getInput(name: string, prompt: string, choices?: string[], defaultChoice?: string): Promise<string> {
+    const answer = this.answers[name];
+    if (answer !== undefined) {
+      if (choices !== undefined && choices.length > 0 && choices.indexOf(answer) < 0) {
+        throw new Error(`The answer "${answer}" to question "${name}" must be one of ${choices.join(', ')}`);
+      }
+      return answer;
+    }
+
+    if (this.assumeYes && defaultChoice !== undefined) {
+      return defaultChoice;
+    }
+
+    this.ensureCanPrompt(name);
+    return getInput(prompt, choices, defaultChoice);
+  }
+
+  /**
+   * Make sure that the user can be prompted for the answer to a question
+   *
+   * @param name - the name of the question
+   */
+  private ensureCanPrompt(name: string): void {
+    if (!process.stdin.isTTY) {
+      throw new Error(
+        `No answer was supplied for question "${name}" and stdin is not a terminal, ` +
+          `use --yes, --answer ${name}=<answer> or an --answers file to provide it`
+      );
+    }
+  }
+
+  /**
+   * Convert an answer from an answers file or option into its string form
+   *
+   * @param answer - the answer
+   * @returns the answer as a string with booleans converted to yes or no
+   */
+  private static normalise(answer: unknown): string {
+    return typeof answer === 'boolean' ? (answer ? 'yes' : 'no') : String(answer);
+  }
+}
@@ -0,0 +1,290 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+import { AdvisoryDatabase } from './AdvisoryDatabase';
+import {
+  Advisory,
+  applyAuditIgnore,
+  auditDependencyTree,
+  loadAuditIgnore,
+  parseNpmAudit,
+  parsePnpmAudit,
+  parseYarnAudit,
+  parseYarnBerryAudit,
+} from './Audit';
+import { getDependencyTree, LockedPackage } from './YarnLock';
+
+describe('Audit', () => {
+  // An advisory in the form reported by npm before version 7, yarn classic and
+  // pnpm
+  const npmAdvisory = (id: number, module: string, severity: string, paths: string[], version = '1.0.0') => ({
+    id,
+    title: `${module} is vulnerable`,
+    url: `https://npmjs.com/advisories/${id}`,
+    module_name: module,
+    severity,
+    vulnerable_versions: '<2.0.0',
+    patched_versions: '>=2.0.0',
+    findings: [{ version, paths }],
+  });
+
+  describe('parseYarnAudit', () => {
+    const line = (value: unknown) => JSON.stringify(value);
+    const summary = line({ type: 'auditSummary', data: {} });
+
+    it('combines the paths of the same advisory and sorts from the most severe', () => {
+      const output = [
+        line({ type: 'auditAdvisory', data: { advisory: npmAdvisory(1, 'minimist', 'low', ['a>minimist']) } }),
+        line({ type: 'auditAdvisory', data: { advisory: npmAdvisory(2, 'lodash', 'high', ['lodash']) } }),
+        line({
+          type: 'auditAdvisory',
+          data: { advisory: npmAdvisory(1, 'minimist', 'low', ['b>minimist'], '1.1.0') },
+        }),
+        summary,
+      ].join('\n');
+
+      const advisories = parseYarnAudit(output);
+      expect(advisories.map(({ id, severity }) => [id, severity])).toEqual([
+        [2, 'high'],
+        [1, 'low'],
+      ]);
+      expect(advisories[1]).toEqual<Advisory>({
+        id: 1,
+        title: 'minimist is vulnerable',
+        url: 'https://npmjs.com/advisories/1',
+        module: 'minimist',
+        severity: 'low',
+        vulnerableVersions: '<2.0.0',
+        patchedVersions: '>=2.0.0',
+        versions: ['1.0.0', '1.1.0'],
+        paths: ['a>minimist', 'b>minimist'],
+      });
+    });
+
+    it('fails when the audit reports an error or does not complete', () => {
+      expect(() => parseYarnAudit(line({ type: 'error', data: 'offline' }))).toThrow('"yarn audit" failed: offline');
+      expect(() => parseYarnAudit('', 1)).toThrow('"yarn audit" did not complete, exit status 1');
+      expect(() => parseYarnAudit('{', 1)).toThrow('Failed to parse the output of "yarn audit"');
+    });
+
+    it('fails for an unknown severity', () => {
+      const output = [
+        line({ type: 'auditAdvisory', data: { advisory: npmAdvisory(1, 'minimist', 'urgent', []) } }),
+        summary,
+      ].join('\n');
+      expect(() => parseYarnAudit(output)).toThrow('Unknown advisory severity "urgent"');
+    });
+  });
+
+  describe('parseNpmAudit', () => {
+    it('follows the effects of each vulnerable package up to a direct dependency', () => {
+      const output = JSON.stringify({
+        vulnerabilities: {
+          minimist: {
+            name: 'minimist',
+            isDirect: false,
+            effects: ['mkdirp'],
+            via: [
+              {
+                source: 1179,
+                name: 'minimist',
+                title: 'Prototype Pollution',
+                url: 'https://github.com/advisories/1179',
+                severity: 'critical',
+                range: '<0.2.1',
+              },
+            ],
+          },
+          mkdirp: { name: 'mkdirp', isDirect: true, effects: [], via: ['minimist'] },
+        },
+      });
+
+      expect(parseNpmAudit(output, 1)).toEqual<Advisory[]>([
+        {
+          id: 1179,
+          title: 'Prototype Pollution',
+          url: 'https://github.com/advisories/1179',
+          module: 'minimist',
+          severity: 'critical',
+          vulnerableVersions: '<0.2.1',
+          patchedVersions: '',
+          versions: [],
+          paths: ['mkdirp>minimist'],
+        },
+      ]);
+    });
+
+    it('reads the advisories reported before npm 7', () => {
+      const output = JSON.stringify({ advisories: { 1: npmAdvisory(1, 'minimist', 'moderate', ['minimist']) } });
+      expect(parseNpmAudit(output).map(({ id, paths }) => [id, paths])).toEqual([[1, ['minimist']]]);
+    });
+
+    it('fails when the audit reports an error or does not complete', () => {
+      expect(() => parseNpmAudit(JSON.stringify({ error: { code: 'ENOAUDIT', summary: 'No audit' } }))).toThrow(
+        '"npm audit" failed: No audit'
+      );
+      expect(() => parseNpmAudit('', 1)).toThrow('"npm audit" did not complete, exit status 1');
+      expect(() => parseNpmAudit('{}', 1)).toThrow('"npm audit" did not complete, exit status 1');
+    });
+  });
+
+  describe('parsePnpmAudit', () => {
+    it('removes the project from the start of the paths', () => {
+      const output = JSON.stringify({
+        advisories: { 1: npmAdvisory(1, 'minimist', 'high', ['.>minimist', '.>a>minimist']) },
+      });
+      expect(parsePnpmAudit(output)[0].paths).toEqual(['minimist', 'a>minimist']);
+    });
+  });
+
+  describe('parseYarnBerryAudit', () => {
+    it('reads a line for each vulnerable module with the packages that depend on it', () => {
+      const output = JSON.stringify({
+        value: 'minimist',
+        children: {
+          ID: 1179,
+          Issue: 'Prototype Pollution',
+          URL: 'https://github.com/advisories/1179',
+          Severity: 'high',
+          'Vulnerable Versions': '<0.2.1',
+          'Tree Versions': ['0.0.8'],
+          Dependents: ['mkdirp@npm:0.5.1', 'root@workspace:.'],
+        },
+      });
+
+      expect(parseYarnBerryAudit(output, 1)).toEqual<Advisory[]>([
+        {
+          id: 1179,
+          title: 'Prototype Pollution',
+          url: 'https://github.com/advisories/1179',
+          module: 'minimist',
+          severity: 'high',
+          vulnerableVersions: '<0.2.1',
+          patchedVersions: '',
+          versions: ['0.0.8'],
+          paths: ['mkdirp>minimist', 'minimist'],
+        },
+      ]);
+    });
+
+    it('reads the advisories reported by yarn 3', () => {
+      const output = JSON.stringify({ advisories: { 1: npmAdvisory(1, 'minimist', 'info', ['minimist']) } });
+      expect(parseYarnBerryAudit(output).map(({ id, severity }) => [id, severity])).toEqual([[1, 'info']]);
+    });
+
+    it('finds nothing when there are no vulnerabilities', () => {
+      expect(parseYarnBerryAudit('')).toEqual([]);
+      expect(() => parseYarnBerryAudit('', 1)).toThrow('"yarn npm audit" did not complete, exit status 1');
+    });
+  });
+
+  describe('auditDependencyTree', () => {
+    const pkg = (name: string, version: string, dependencies: Record<string, string> = {}): LockedPackage => ({
+      name,
+      version,
+      descriptors: [`${name}@^${version}`],
+      dependencies,
+      workspace: false,
+    });
+
+    it('finds the vulnerable versions in the tree and the packages the snapshot does not cover', () => {
+      const packages = [
+        pkg('mkdirp', '0.5.1', { minimist: '^1.2.0' }),
+        pkg('minimist', '1.2.0'),
+        pkg('chalk', '4.1.2'),
+      ];
+      const tree = getDependencyTree(packages, { dependencies: { mkdirp: '^0.5.1', chalk: '^4.1.2' } });
+      const database: AdvisoryDatabase = {
+        updated: '2026-01-01T00:00:00.000Z',
+        registry: 'https://registry.npmjs.org',
+        packages: { mkdirp: ['0.5.1'], minimist: ['1.2.0'] },
+        advisories: {
+          minimist: [
+            { id: 1, title: 'Old', url: 'https://a/1', severity: 'low', vulnerable_versions: '<1.0.0' },
+            { id: 2, title: 'Pollution', url: 'https://a/2', severity: 'critical', vulnerable_versions: '<1.2.6' },
+          ],
+        },
+      };
+
+      const { advisories, unchecked } = auditDependencyTree(tree, database);
+      expect(advisories.map(({ id, module, paths }) => [id, module, paths])).toEqual([
+        [2, 'minimist', ['mkdirp>minimist']],
+      ]);
+      expect(unchecked.map(({ name }) => name)).toEqual(['chalk']);
+    });
+  });
+
+  describe('applyAuditIgnore', () => {
+    const advisory: Advisory = {
+      id: 1,
+      title: 'Pollution',
+      url: 'https://a/1',
+      module: 'minimist',
+      severity: 'high',
+      vulnerableVersions: '<1.2.6',
+      patchedVersions: '>=1.2.6',
+      versions: ['1.2.0'],
+      paths: ['a>minimist', 'b>minimist'],
+    };
+
+    it('suppresses the paths accepted by entries that have not expired', () => {
+      const entry = { id: 1, path: 'a>minimist', reason: 'Not reachable', expires: '2026-06-30' };
+      const result = applyAuditIgnore([advisory], [entry], '2026-06-30');
+      expect(result.advisories).toEqual([{ ...advisory, paths: ['b>minimist'] }]);
+      expect(result.suppressed).toEqual([{ entry, advisory }]);
+      expect(result.expired).toEqual([]);
+    });
+
+    it('suppresses every path of an advisory accepted without a path', () => {
+      const entry = { id: 1, reason: 'Not reachable', expires: '2026-06-30' };
+      expect(applyAuditIgnore([advisory], [entry], '2026-06-01').advisories).toEqual([]);
+    });
+
+    it('no longer suppresses the advisory once the entry has expired', () => {
+      const entry = { id: 1, reason: 'Not reachable', expires: '2026-06-30' };
+      const result = applyAuditIgnore([advisory], [entry], '2026-07-01');
+      expect(result.advisories).toEqual([advisory]);
+      expect(result.expired).toEqual([entry]);
+    });
+  });
+
+  describe('loadAuditIgnore', () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(os.tmpdir(), 'jetsam-audit-'));
+      file = path.join(dir, 'audit-ignore.json');
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('loads the entries', async () => {
+      const ignore = [
+        { id: 1, reason: 'Not reachable', expires: '2026-06-30' },
+        { id: 2, path: 'a>b', reason: 'Dev only', expires: '2026-12-31' },
+      ];
+      await writeFile(file, JSON.stringify({ ignore }));
+      expect(await loadAuditIgnore(file)).toEqual(ignore);
+    });
+
+    it('has no entries without a file', async () => {
+      expect(await loadAuditIgnore(file)).toEqual([]);
+    });
+
+    it.each([
+      [{ ignore: {} }, 'must be a list of advisories'],
+      [{ ignore: [null] }, 'Entry 1 in'],
+      [{ ignore: [{ id: '1', reason: 'x', expires: '2026-06-30' }] }, 'must have the numeric id of an advisory'],
+      [{ ignore: [{ id: 1, path: 3, reason: 'x', expires: '2026-06-30' }] }, 'must have a path that is a string'],
+      [{ ignore: [{ id: 1, reason: ' ', expires: '2026-06-30' }] }, 'must have the reason'],
+      [{ ignore: [{ id: 1, reason: 'x', expires: '2026-02-30' }] }, 'must have an expiry date in the form YYYY-MM-DD'],
+    ])('rejects %j', async (contents, message) => {
+      await writeFile(file, JSON.stringify(contents));
+      await expect(loadAuditIgnore(file)).rejects.toThrow(message);
+    });
+  });
+});
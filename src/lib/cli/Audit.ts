@@ -0,0 +1,661 @@
+/**
+ * Support for auditing the dependencies of a package, where the JSON output of
+ * the audit command of its package manager is parsed into a list of advisories
+ * so they can be summarised and the result of the audit decided from their
+ * severities, whichever package manager is used.
+ */
+import chalk from 'chalk';
+import { readFile } from 'fs/promises';
+
+import { AdvisoryDatabase } from './AdvisoryDatabase';
+import { PackageManager } from './PackageManager';
+import { getResultFromCmd, isExistingFile } from './SubCommandHelpers';
+import { Version } from './Version';
+import { DependencyTree, findDependencyPaths, LockedPackage } from './YarnLock';
+
+// The severities of advisories from the least to the most severe
+export const SEVERITIES = ['info', 'low', 'moderate', 'high', 'critical'] as const;
+export type Severity = typeof SEVERITIES[number];
+
+// The command that audits the dependencies with each package manager
+const AUDIT_COMMANDS: { [packageManager in PackageManager]: string[] } = {
+  npm: ['npm', 'audit', '--json'],
+  yarn: ['yarn', 'audit', '--json'],
+  'yarn-berry': ['yarn', 'npm', 'audit', '--all', '--recursive', '--json'],
+  pnpm: ['pnpm', 'audit', '--json'],
+};
+
+// The parsers of the output of each package manager's audit command
+const AUDIT_PARSERS: { [packageManager in PackageManager]: (output: string, exitStatus: number) => Advisory[] } = {
+  npm: parseNpmAudit,
+  yarn: parseYarnAudit,
+  'yarn-berry': parseYarnBerryAudit,
+  pnpm: parsePnpmAudit,
+};
+
+// The colours used to display each severity
+const SEVERITY_COLOURS: { [severity in Severity]: (text: string) => string } = {
+  info: chalk.cyan,
+  low: chalk.green,
+  moderate: chalk.yellow,
+  high: chalk.red,
+  critical: chalk.magenta,
+};
+
+/**
+ * An advisory for a vulnerable module found by an audit
+ */
+export interface Advisory {
+  // The identifier of the advisory and where it is described
+  id: number;
+  title: string;
+  url: string;
+
+  // The vulnerable module and how severe its vulnerability is
+  module: string;
+  severity: Severity;
+
+  // The versions of the module that are vulnerable and those that are not,
+  // which is empty if the package manager does not report them
+  vulnerableVersions: string;
+  patchedVersions: string;
+
+  // The versions of the module that are installed and the dependency paths
+  // through which they are installed, eg: `a>b>module`
+  versions: string[];
+  paths: string[];
+}
+
+/**
+ * An entry in the audit ignore file that accepts an advisory, either for all
+ * of the paths through which the vulnerable module is installed or only one
+ */
+export interface AuditIgnoreEntry {
+  id: number;
+  path?: string;
+
+  // Why the advisory is accepted and the date after which it no longer is,
+  // as `YYYY-MM-DD`
+  reason: string;
+  expires: string;
+}
+
+/**
+ * The advisories left once those accepted by the audit ignore file have been
+ * suppressed
+ */
+export interface AuditIgnoreResult {
+  // The advisories that have not been suppressed, which may have fewer paths
+  // than were found if only some of them were accepted
+  advisories: Advisory[];
+
+  // The entries that suppressed an advisory, along with the advisory
+  suppressed: { entry: AuditIgnoreEntry; advisory: Advisory }[];
+
+  // The entries that have expired and so no longer suppress anything
+  expired: AuditIgnoreEntry[];
+}
+
+/**
+ * The result of auditing a dependency tree against a snapshot of advisories
+ */
+export interface OfflineAuditResult {
+  // The advisories found sorted from the most severe
+  advisories: Advisory[];
+
+  // The packages whose versions were not checked when the snapshot was taken,
+  // which may have advisories that it does not have
+  unchecked: LockedPackage[];
+}
+
+/**
+ * Compare two severities
+ *
+ * @param a - the first severity
+ * @param b - the second severity
+ * @returns less than zero if `a` is less severe than `b`, zero if they are the
+ * same and greater than zero if it is more severe
+ */
+export function compareSeverity(a: Severity, b: Severity): number {
+  return SEVERITIES.indexOf(a) - SEVERITIES.indexOf(b);
+}
+
+/**
+ * Audit the dependencies of the package in the current directory
+ *
+ * @param packageManager - the package manager used by the package
+ * @returns the advisories found sorted from the most severe
+ */
+export async function runAudit(packageManager: PackageManager): Promise<Advisory[]> {
+  const [cmd, ...args] = AUDIT_COMMANDS[packageManager];
+  const result = await getResultFromCmd(cmd, ...args);
+  if (result === undefined) {
+    throw new Error(`Failed to run "${cmd} ${args.join(' ')}"`);
+  }
+  return AUDIT_PARSERS[packageManager](result.output, result.exitStatus);
+}
+
+/**
+ * Audit the packages of a dependency tree against a snapshot of advisories
+ * rather than the registry
+ *
+ * @param tree - the dependency tree from the lockfile
+ * @param database - the snapshot of advisories
+ * @returns the advisories found and the packages that the snapshot does not
+ * cover
+ */
+export function auditDependencyTree(tree: DependencyTree, database: AdvisoryDatabase): OfflineAuditResult {
+  const advisories = new Map<number, Advisory>();
+  const unchecked: LockedPackage[] = [];
+
+  for (const pkg of tree.packages) {
+    if (!(database.packages[pkg.name] ?? []).includes(pkg.version)) {
+      unchecked.push(pkg);
+    }
+
+    for (const advisory of database.advisories[pkg.name] ?? []) {
+      if (isVulnerable(pkg.version, advisory.vulnerable_versions)) {
+        addAdvisory(advisories, {
+          id: advisory.id,
+          title: advisory.title,
+          url: advisory.url,
+          module: pkg.name,
+          severity: toSeverity(advisory.severity),
+          vulnerableVersions: advisory.vulnerable_versions,
+          patchedVersions: '',
+          versions: [pkg.version],
+          paths: findDependencyPaths(tree, pkg),
+        });
+      }
+    }
+  }
+  return { advisories: sortAdvisories(advisories), unchecked };
+}
+
+/**
+ * Parse the NDJSON output of `yarn audit --json`, where an advisory is output
+ * for each dependency that resolves to a vulnerable module so the paths for
+ * the same advisory are combined
+ *
+ * @param output - the output of `yarn audit`
+ * @param exitStatus - the exit status of `yarn audit`, used when reporting an
+ * audit that did not complete
+ * @returns the advisories sorted from the most severe
+ */
+export function parseYarnAudit(output: string, exitStatus = 0): Advisory[] {
+  const advisories = new Map<number, Advisory>();
+  let completed = false;
+
+  for (const record of parseLines('yarn audit', output)) {
+    if (record.type === 'error') {
+      throw new Error(`"yarn audit" failed: ${record.data}`);
+    } else if (record.type === 'auditSummary') {
+      completed = true;
+    } else if (record.type === 'auditAdvisory') {
+      addAdvisory(advisories, fromNpmAdvisory(record.data.advisory));
+    }
+  }
+
+  if (!completed) {
+    throw new Error(`"yarn audit" did not complete, exit status ${exitStatus}`);
+  }
+  return sortAdvisories(advisories);
+}
+
+/**
+ * Parse the output of `npm audit --json`, which from npm 7 lists each
+ * vulnerable package along with the advisories for it and the packages that
+ * depend on it. Earlier versions output the same advisories as yarn classic.
+ *
+ * @param output - the output of `npm audit`
+ * @param exitStatus - the exit status of `npm audit`
+ * @returns the advisories sorted from the most severe
+ */
+export function parseNpmAudit(output: string, exitStatus = 0): Advisory[] {
+  const report = parseReport('npm audit', output, exitStatus);
+  if (report.advisories !== undefined) {
+    return parseNpmAdvisories(report.advisories);
+  }
+  if (report.vulnerabilities === undefined) {
+    throw new Error(`"npm audit" did not complete, exit status ${exitStatus}`);
+  }
+
+  // The dependency paths are found by following the packages affected by each
+  // vulnerable package up to a direct dependency
+  const vulnerabilities: Record<string, any> = report.vulnerabilities;
+  const getPaths = (name: string, seen: Set<string>): string[] => {
+    const vulnerability = vulnerabilities[name];
+    const effects: string[] = (vulnerability?.effects ?? []).filter((effect: string) => !seen.has(effect));
+    const paths = vulnerability?.isDirect === true || effects.length === 0 ? [name] : [];
+    for (const effect of effects) {
+      paths.push(...getPaths(effect, new Set([...seen, name])).map((parent) => `${parent}>${name}`));
+    }
+    return paths;
+  };
+
+  const advisories = new Map<number, Advisory>();
+  for (const vulnerability of Object.values(vulnerabilities)) {
+    // A vulnerability is also listed for each package that is only vulnerable
+    // through its dependencies, which refer to them by name
+    for (const via of vulnerability.via ?? []) {
+      if (typeof via !== 'object') {
+        continue;
+      }
+      addAdvisory(advisories, {
+        id: via.source,
+        title: via.title,
+        url: via.url,
+        module: via.name,
+        severity: toSeverity(via.severity),
+        vulnerableVersions: via.range,
+        patchedVersions: '',
+        versions: [],
+        paths: getPaths(vulnerability.name, new Set()),
+      });
+    }
+  }
+  return sortAdvisories(advisories);
+}
+
+/**
+ * Parse the output of `pnpm audit --json`, which has the same advisories as
+ * npm before version 7
+ *
+ * @param output - the output of `pnpm audit`
+ * @param exitStatus - the exit status of `pnpm audit`
+ * @returns the advisories sorted from the most severe
+ */
+export function parsePnpmAudit(output: string, exitStatus = 0): Advisory[] {
+  const report = parseReport('pnpm audit', output, exitStatus);
+  if (report.advisories === undefined) {
+    throw new Error(`"pnpm audit" did not complete, exit status ${exitStatus}`);
+  }
+
+  // The paths start from the project, eg: `.>a>module`
+  return parseNpmAdvisories(report.advisories).map((advisory) => ({
+    ...advisory,
+    paths: union(advisory.paths.map((path) => path.replace(/^\.>/, ''))),
+  }));
+}
+
+/**
+ * Parse the output of `yarn npm audit --json`, which is the same as npm before
+ * version 7 for yarn 3 while yarn 4 outputs a line for each vulnerable module
+ * listing the packages that depend on it
+ *
+ * @param output - the output of `yarn npm audit`
+ * @param exitStatus - the exit status of `yarn npm audit`
+ * @returns the advisories sorted from the most severe
+ */
+export function parseYarnBerryAudit(output: string, exitStatus = 0): Advisory[] {
+  const records = parseLines('yarn npm audit', output);
+  if (records.length === 0 && exitStatus !== 0) {
+    throw new Error(`"yarn npm audit" did not complete, exit status ${exitStatus}`);
+  }
+  if (records.length === 1 && records[0].advisories !== undefined) {
+    return parseNpmAdvisories(records[0].advisories);
+  }
+
+  const advisories = new Map<number, Advisory>();
+  for (const { value, children } of records) {
+    if (children === undefined) {
+      throw new Error(`"yarn npm audit" failed: ${JSON.stringify(value)}`);
+    }
+
+    // The dependents are descriptors, eg: `a@npm:1.0.0`, where a workspace
+    // depends on the module directly
+    const dependents: string[] = children.Dependents ?? [];
+    addAdvisory(advisories, {
+      id: Number(children.ID),
+      title: children.Issue,
+      url: children.URL,
+      module: value,
+      severity: toSeverity(children.Severity),
+      vulnerableVersions: children['Vulnerable Versions'],
+      patchedVersions: children['Patched Versions'] ?? '',
+      versions: children['Tree Versions'] ?? [],
+      paths: dependents.map((dependent) =>
+        dependent.includes('@workspace:') ? value : `${dependent.replace(/@[^@/]*$/, '')}>${value}`
+      ),
+    });
+  }
+  return sortAdvisories(advisories);
+}
+
+/**
+ * Load the entries from an audit ignore file
+ *
+ * @param file - the audit ignore file
+ * @returns the entries or an empty list if there is no file
+ */
+export async function loadAuditIgnore(file: string): Promise<AuditIgnoreEntry[]> {
+  if (!(await isExistingFile(file))) {
+    return [];
+  }
+
+  let contents: unknown;
+  try {
+    contents = JSON.parse(await readFile(file, 'utf8'));
+  } catch (err) {
+    throw new Error(`Failed to read audit ignore file ${file}: ${err}`);
+  }
+
+  const entries =
+    contents !== null && typeof contents === 'object' ? (contents as Record<string, unknown>).ignore ?? [] : [];
+  if (!Array.isArray(entries)) {
+    throw new Error(`The ignore setting in ${file} must be a list of advisories`);
+  }
+  return entries.map((entry: unknown, index) => {
+    const where = `Entry ${index + 1} in ${file}`;
+    const {
+      id,
+      path: entryPath,
+      reason,
+      expires,
+    } = (entry !== null && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    if (typeof id !== 'number') {
+      throw new Error(`${where} must have the numeric id of an advisory`);
+    }
+    if (entryPath !== undefined && typeof entryPath !== 'string') {
+      throw new Error(`${where} must have a path that is a string, eg: "a>b>module"`);
+    }
+    if (typeof reason !== 'string' || reason.trim() === '') {
+      throw new Error(`${where} must have the reason the advisory is accepted`);
+    }
+    if (typeof expires !== 'string' || !isDate(expires)) {
+      throw new Error(`${where} must have an expiry date in the form YYYY-MM-DD`);
+    }
+    return entryPath === undefined ? { id, reason, expires } : { id, path: entryPath, reason, expires };
+  });
+}
+
+/**
+ * Suppress the advisories that are accepted by the entries of an audit ignore
+ * file that have not expired. An entry with a path only suppresses the
+ * advisory for that path.
+ *
+ * @param advisories - the advisories found by the audit
+ * @param entries - the entries of the audit ignore file
+ * @param today - today's date as `YYYY-MM-DD`
+ * @returns the advisories that remain along with the entries that were used
+ * and those that have expired
+ */
+export function applyAuditIgnore(
+  advisories: Advisory[],
+  entries: AuditIgnoreEntry[],
+  today = getLocalDate(new Date())
+): AuditIgnoreResult {
+  const expired = entries.filter((entry) => entry.expires < today);
+  const active = entries.filter((entry) => entry.expires >= today);
+  const result: AuditIgnoreResult = { advisories: [], suppressed: [], expired };
+
+  for (const advisory of advisories) {
+    let paths = advisory.paths;
+    let all = false;
+    for (const entry of active.filter(({ id }) => id === advisory.id)) {
+      if (entry.path === undefined) {
+        all = true;
+        result.suppressed.push({ entry, advisory });
+      } else if (paths.includes(entry.path)) {
+        paths = paths.filter((path) => path !== entry.path);
+        result.suppressed.push({ entry, advisory });
+      }
+    }
+
+    if (!all && (paths.length > 0 || advisory.paths.length === 0)) {
+      result.advisories.push(paths === advisory.paths ? advisory : { ...advisory, paths });
+    }
+  }
+  return result;
+}
+
+/**
+ * Display the advisories suppressed by the audit ignore file and any of its
+ * entries that have expired
+ *
+ * @param result - the result of applying the audit ignore file
+ * @param file - the audit ignore file
+ * @param showSuppressed - false if only the expired entries are to be shown,
+ * eg: when the advisories are output as JSON
+ */
+export function printAuditIgnoreReport(result: AuditIgnoreResult, file: string, showSuppressed = true): void {
+  const describe = (entry: AuditIgnoreEntry) =>
+    `advisory ${entry.id}${entry.path === undefined ? '' : ` for ${entry.path}`}`;
+
+  if (showSuppressed && result.suppressed.length > 0) {
+    const lines = result.suppressed.map(
+      ({ entry, advisory }) => `  ${advisory.module} ${describe(entry)} until ${entry.expires}: ${entry.reason}`
+    );
+    // eslint-disable-next-line no-console
+    console.log(`Suppressed by ${file}:\n${lines.join('\n')}`);
+  }
+
+  for (const entry of result.expired) {
+    console.error(`Error: The entry in ${file} for ${describe(entry)} expired on ${entry.expires}: ${entry.reason}`);
+  }
+}
+
+/**
+ * Display a summary of the advisories found by an audit, grouped by severity
+ *
+ * @param advisories - the advisories, sorted from the most severe
+ */
+export function printAuditReport(advisories: Advisory[]): void {
+  if (advisories.length === 0) {
+    // eslint-disable-next-line no-console
+    console.log('No vulnerabilities found');
+    return;
+  }
+
+  const moduleWidth = Math.max(...advisories.map((advisory) => advisory.module.length));
+  const titleWidth = Math.max(...advisories.map((advisory) => advisory.title.length));
+  const patched = (advisory: Advisory) => advisory.patchedVersions || '-';
+  const patchedWidth = Math.max(...advisories.map((advisory) => patched(advisory).length));
+  const lines: string[] = [];
+  const counts: string[] = [];
+
+  for (const severity of [...SEVERITIES].reverse()) {
+    const group = advisories.filter((advisory) => advisory.severity === severity);
+    if (group.length === 0) {
+      continue;
+    }
+
+    const colour = SEVERITY_COLOURS[severity];
+    counts.push(colour(`${group.length} ${severity}`));
+    lines.push(colour(`${severity} (${group.length})`));
+    for (const advisory of group) {
+      const paths = `${advisory.paths.length} ${advisory.paths.length === 1 ? 'path' : 'paths'}`;
+      lines.push(
+        `  ${advisory.module.padEnd(moduleWidth)}  ${advisory.title.padEnd(titleWidth)}  ` +
+          `${patched(advisory).padEnd(patchedWidth)}  ${paths.padEnd(9)}  ${advisory.url}`
+      );
+    }
+  }
+
+  const total = `${advisories.length} ${advisories.length === 1 ? 'vulnerability' : 'vulnerabilities'}`;
+  lines.push(`Found ${total}: ${counts.join(', ')}`);
+  // eslint-disable-next-line no-console
+  console.log(lines.join('\n'));
+}
+
+/**
+ * Check whether a date is valid and in the form `YYYY-MM-DD`
+ *
+ * @param date - the date
+ * @returns true if it is valid
+ */
+function isDate(date: string): boolean {
+  const parsed = new Date(date);
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+}
+
+/**
+ * Check whether a version of a package is within the vulnerable versions of
+ * an advisory, where a range that cannot be understood is taken to include it
+ *
+ * @param versionNum - the version of the package
+ * @param range - the vulnerable versions
+ * @returns true if the version is vulnerable
+ */
+function isVulnerable(versionNum: string, range: string): boolean {
+  // A version that is not semver, eg: a git dependency, cannot be checked
+  const version = Version.tryParse(versionNum);
+  if (version === undefined) {
+    return false;
+  }
+
+  try {
+    return version.satisfies(range);
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Parse the advisories reported by npm before version 7, which are keyed by
+ * their identifiers
+ *
+ * @param report - the advisories from the report
+ * @returns the advisories sorted from the most severe
+ */
+function parseNpmAdvisories(report: Record<string, any>): Advisory[] {
+  const advisories = new Map<number, Advisory>();
+  for (const advisory of Object.values(report)) {
+    addAdvisory(advisories, fromNpmAdvisory(advisory));
+  }
+  return sortAdvisories(advisories);
+}
+
+/**
+ * Convert an advisory in the form reported by npm before version 7, which is
+ * also used by yarn classic and pnpm
+ *
+ * @param advisory - the advisory
+ * @returns the converted advisory
+ */
+function fromNpmAdvisory(advisory: Record<string, any>): Advisory {
+  const findings: { version: string; paths: string[] }[] = advisory.findings ?? [];
+  return {
+    id: advisory.id,
+    title: advisory.title,
+    url: advisory.url,
+    module: advisory.module_name,
+    severity: toSeverity(advisory.severity),
+    vulnerableVersions: advisory.vulnerable_versions,
+    patchedVersions: advisory.patched_versions,
+    versions: union(findings.map((finding) => finding.version)),
+    paths: union(...findings.map((finding) => finding.paths)),
+  };
+}
+
+/**
+ * Add an advisory to those found, combining it with the same advisory for
+ * other paths
+ *
+ * @param advisories - the advisories found by their identifiers
+ * @param advisory - the advisory to add
+ */
+function addAdvisory(advisories: Map<number, Advisory>, advisory: Advisory): void {
+  const existing = advisories.get(advisory.id);
+  if (existing === undefined) {
+    advisories.set(advisory.id, advisory);
+  } else {
+    existing.versions = union(existing.versions, advisory.versions);
+    existing.paths = union(existing.paths, advisory.paths);
+  }
+}
+
+/**
+ * Sort advisories from the most severe, then by module
+ *
+ * @param advisories - the advisories found by their identifiers
+ * @returns the sorted advisories
+ */
+function sortAdvisories(advisories: Map<number, Advisory>): Advisory[] {
+  return [...advisories.values()].sort(
+    (a, b) => compareSeverity(b.severity, a.severity) || a.module.localeCompare(b.module) || a.id - b.id
+  );
+}
+
+/**
+ * Convert a severity reported by a package manager
+ *
+ * @param value - the severity
+ * @returns the severity
+ */
+function toSeverity(value: unknown): Severity {
+  const severity = String(value).toLowerCase() as Severity;
+  if (!SEVERITIES.includes(severity)) {
+    throw new Error(`Unknown advisory severity "${value}"`);
+  }
+  return severity;
+}
+
+/**
+ * Parse the output of an audit that is a single JSON report
+ *
+ * @param command - the audit command, used in errors
+ * @param output - the output of the command
+ * @param exitStatus - the exit status of the command
+ * @returns the report
+ */
+function parseReport(command: string, output: string, exitStatus: number): Record<string, any> {
+  if (output.trim() === '') {
+    throw new Error(`"${command}" did not complete, exit status ${exitStatus}`);
+  }
+
+  let report: Record<string, any>;
+  try {
+    report = JSON.parse(output);
+  } catch (err) {
+    throw new Error(`Failed to parse the output of "${command}": ${err}`);
+  }
+
+  if (report.error !== undefined) {
+    const { summary, message, code } = report.error;
+    throw new Error(`"${command}" failed: ${summary ?? message ?? code}`);
+  }
+  return report;
+}
+
+/**
+ * Parse the output of an audit that is NDJSON, ie: a JSON value on each line
+ *
+ * @param command - the audit command, used in errors
+ * @param output - the output of the command
+ * @returns the values
+ */
+function parseLines(command: string, output: string): any[] {
+  return output
+    .split('\n')
+    .filter((line) => line.trim() !== '')
+    .map((line) => {
+      try {
+        return JSON.parse(line);
+      } catch (err) {
+        throw new Error(`Failed to parse the output of "${command}": ${err}`);
+      }
+    });
+}
+
+/**
+ * Combine lists of values, without duplicates, preserving their order
+ *
+ * @param lists - the lists
+ * @returns the combined list
+ */
+function union(...lists: string[][]): string[] {
+  return [...new Set(lists.flat())];
+}
+
+/**
+ * Get a date as `YYYY-MM-DD` in the local time zone, which is how the expiry
+ * dates of the audit ignore file are read
+ *
+ * @param date - the date
+ * @returns the date as `YYYY-MM-DD`
+ */
+function getLocalDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -0,0 +1,132 @@
+/**
+ * Support for an audit baseline, which records the advisories that a project
+ * already has so that an audit only fails for advisories introduced since.
+ */
+import { readFile, writeFile } from 'fs/promises';
+import mkdirp from 'mkdirp';
+import path from 'path';
+
+import { Advisory, Severity } from './Audit';
+import { isExistingFile } from './SubCommandHelpers';
+
+/**
+ * An advisory recorded in the baseline
+ */
+export interface BaselineEntry {
+  id: number;
+  module: string;
+
+  // How the advisory was described when the baseline was written, which is
+  // only for the benefit of those reading it
+  severity: Severity;
+  title: string;
+}
+
+/**
+ * The advisories found by an audit compared with those in the baseline
+ */
+export interface BaselineComparison {
+  // The advisories that are not in the baseline and those that are
+  added: Advisory[];
+  known: Advisory[];
+
+  // The advisories in the baseline that were not found
+  resolved: BaselineEntry[];
+}
+
+/**
+ * Load the advisories recorded in a baseline
+ *
+ * @param file - the baseline file
+ * @returns the advisories
+ */
+export async function loadAuditBaseline(file: string): Promise<BaselineEntry[]> {
+  if (!(await isExistingFile(file))) {
+    throw new Error(`The audit baseline ${file} does not exist, use --update-baseline to create it`);
+  }
+
+  let contents: unknown;
+  try {
+    contents = JSON.parse(await readFile(file, 'utf8'));
+  } catch (err) {
+    throw new Error(`Failed to read audit baseline ${file}: ${err}`);
+  }
+
+  const entries =
+    contents !== null && typeof contents === 'object' ? (contents as Record<string, unknown>).advisories : undefined;
+  if (!Array.isArray(entries) || !entries.every(isBaselineEntry)) {
+    throw new Error(`The audit baseline ${file} must have a list of advisories each with an id and module`);
+  }
+  return entries;
+}
+
+/**
+ * Write the advisories found by an audit as the baseline
+ *
+ * @param file - the baseline file
+ * @param advisories - the advisories
+ * @returns a promise resolved when complete
+ */
+export async function writeAuditBaseline(file: string, advisories: Advisory[]): Promise<void> {
+  const entries: BaselineEntry[] = advisories
+    .map(({ id, module, severity, title }) => ({ id, module, severity, title }))
+    .sort((a, b) => a.module.localeCompare(b.module) || a.id - b.id);
+  await mkdirp(path.dirname(file));
+  await writeFile(file, JSON.stringify({ advisories: entries }, null, 2) + '\n', 'utf8');
+}
+
+/**
+ * Compare the advisories found by an audit with those in the baseline, where
+ * an advisory is identified by its id and the module it is for
+ *
+ * @param advisories - the advisories found
+ * @param baseline - the advisories in the baseline
+ * @returns the comparison
+ */
+export function compareWithBaseline(advisories: Advisory[], baseline: BaselineEntry[]): BaselineComparison {
+  const key = (advisory: { id: number; module: string }) => `${advisory.module}@${advisory.id}`;
+  const known = new Set(baseline.map(key));
+  const found = new Set(advisories.map(key));
+  return {
+    added: advisories.filter((advisory) => !known.has(key(advisory))),
+    known: advisories.filter((advisory) => known.has(key(advisory))),
+    resolved: baseline.filter((entry) => !found.has(key(entry))),
+  };
+}
+
+/**
+ * Display the advisories that are new since the baseline and those that have
+ * been resolved
+ *
+ * @param comparison - the comparison with the baseline
+ * @param file - the baseline file
+ */
+export function printBaselineReport(comparison: BaselineComparison, file: string): void {
+  const describe = (advisory: { id: number; module: string; severity: Severity; title: string }) =>
+    `  ${advisory.module} advisory ${advisory.id} (${advisory.severity}): ${advisory.title}`;
+
+  const { added, known, resolved } = comparison;
+  const summary = `Compared with ${file}, ${known.length} known and ${added.length} new`;
+  const lines = [added.length === 0 ? summary : `${summary}:`, ...added.map(describe)];
+  if (resolved.length > 0) {
+    lines.push(`Resolved since ${file}, which can be updated with --update-baseline:`, ...resolved.map(describe));
+  }
+  // eslint-disable-next-line no-console
+  console.log(lines.join('\n'));
+}
+
+/**
+ * Check whether a value read from a baseline identifies an advisory, where
+ * the severity and title are not checked as they are only descriptive
+ *
+ * @param entry - the value
+ * @returns true if it is an entry of the baseline
+ */
+function isBaselineEntry(entry: unknown): entry is BaselineEntry {
+  if (entry === null || typeof entry !== 'object') {
+    return false;
+  }
+
+  const { id, module } = entry as Record<string, unknown>;
+  return typeof id === 'number' && typeof module === 'string' && module !== '';
+}
@@ -0,0 +1,352 @@
+/**
+ * Reports of the results of an audit written to files for other tools, such
+ * as SARIF for code scanning, JUnit XML for CI dashboards and a Markdown
+ * summary that can be posted to a pull request.
+ */
+import { writeFile } from 'fs/promises';
+import mkdirp from 'mkdirp';
+import path from 'path';
+
+import { Advisory, AuditIgnoreEntry, compareSeverity, Severity } from './Audit';
+import { BaselineComparison } from './AuditBaseline';
+
+// The formats that reports can be written in
+export const REPORT_FORMATS = ['sarif', 'junit', 'markdown'] as const;
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+// The SARIF levels that each severity is reported with
+const SARIF_LEVELS: { [severity in Severity]: string } = {
+  info: 'note',
+  low: 'note',
+  moderate: 'warning',
+  high: 'error',
+  critical: 'error',
+};
+
+// The name of the tool that produced the reports
+const TOOL_NAME = 'jetsam audit';
+
+/**
+ * A report that is to be written, given on the command-line as
+ * `<format>:<path>`
+ */
+export interface ReportRequest {
+  format: ReportFormat;
+  path: string;
+}
+
+/**
+ * The results of an audit to be reported
+ */
+export interface AuditResults {
+  // The advisories shown and the severity at which they fail the audit
+  advisories: Advisory[];
+  minimum: Severity;
+
+  // The advisories suppressed by the audit ignore file, along with the entry
+  // that suppressed each, and the entries that have expired
+  suppressed: { entry: AuditIgnoreEntry; advisory: Advisory }[];
+  expired: AuditIgnoreEntry[];
+
+  // The comparison with the audit baseline, if one was used, in which case
+  // only the advisories that are not in the baseline fail the audit
+  baseline?: BaselineComparison;
+
+  // The manifest of the package that was audited, which is the location
+  // given for each advisory
+  manifestFile: string;
+}
+
+/**
+ * Parse a report requested on the command-line
+ *
+ * @param request - the request as `<format>:<path>`, eg: `sarif:audit.sarif`
+ * @returns the parsed request
+ */
+export function parseReportRequest(request: string): ReportRequest {
+  const separator = request.indexOf(':');
+  const format = request.slice(0, separator) as ReportFormat;
+  const file = request.slice(separator + 1);
+  if (separator < 0 || !REPORT_FORMATS.includes(format) || file === '') {
+    throw new Error(
+      `Invalid report "${request}", expected <format>:<path> where format is ${REPORT_FORMATS.join(', ')}`
+    );
+  }
+  return { format, path: file };
+}
+
+/**
+ * Write a report of the results of an audit
+ *
+ * @param request - the report to write
+ * @param results - the results of the audit
+ * @returns a promise resolved when complete
+ */
+export async function writeAuditReport(request: ReportRequest, results: AuditResults): Promise<void> {
+  const formatters: { [format in ReportFormat]: (results: AuditResults) => string } = {
+    sarif: formatSarif,
+    junit: formatJUnit,
+    markdown: formatMarkdown,
+  };
+
+  try {
+    await mkdirp(path.dirname(request.path));
+    await writeFile(request.path, formatters[request.format](results), 'utf8');
+  } catch (err) {
+    throw new Error(`Failed to write ${request.format} report to ${request.path}: ${err}`);
+  }
+}
+
+/**
+ * Format the results of an audit as SARIF 2.1.0, where there is a rule for
+ * each advisory and a result for each vulnerable module
+ *
+ * @param results - the results of the audit
+ * @returns the report
+ */
+export function formatSarif(results: AuditResults): string {
+  const { advisories, baseline, manifestFile } = results;
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            rules: advisories.map((advisory) => ({
+              id: getRuleId(advisory),
+              name: advisory.title,
+              shortDescription: { text: advisory.title },
+              helpUri: advisory.url || undefined,
+              properties: { severity: advisory.severity, tags: ['security', 'dependency'] },
+            })),
+          },
+        },
+        results: advisories.map((advisory) => ({
+          ruleId: getRuleId(advisory),
+          level: SARIF_LEVELS[advisory.severity],
+          message: { text: describeAdvisory(advisory) },
+          baselineState: baseline === undefined ? undefined : isKnown(results, advisory) ? 'unchanged' : 'new',
+          locations: [{ physicalLocation: { artifactLocation: { uri: manifestFile.split(path.sep).join('/') } } }],
+        })),
+      },
+    ],
+  };
+  return JSON.stringify(sarif, null, 2) + '\n';
+}
+
+/**
+ * Format the results of an audit as JUnit XML, where there is a test case for
+ * each advisory that fails if it is at or above the minimum severity and is
+ * skipped otherwise, or if it was suppressed or is in the baseline
+ *
+ * @param results - the results of the audit
+ * @returns the report
+ */
+export function formatJUnit(results: AuditResults): string {
+  const { advisories, minimum, suppressed, expired } = results;
+  const cases: string[] = [];
+  let failures = 0;
+  let skipped = 0;
+
+  for (const advisory of advisories) {
+    const name = `${advisory.title} (${advisory.id})`;
+    if (isKnown(results, advisory)) {
+      ++skipped;
+      cases.push(formatTestCase(advisory.module, name, '<skipped message="In the audit baseline"/>'));
+    } else if (compareSeverity(advisory.severity, minimum) >= 0) {
+      ++failures;
+      const failure =
+        `<failure type="${advisory.severity}" message="${escapeXml(describeAdvisory(advisory))}">` +
+        `${escapeXml(advisory.paths.join('\n'))}</failure>`;
+      cases.push(formatTestCase(advisory.module, name, failure));
+    } else {
+      ++skipped;
+      cases.push(formatTestCase(advisory.module, name, `<skipped message="Below the minimum severity ${minimum}"/>`));
+    }
+  }
+
+  for (const { entry, advisory } of suppressed) {
+    ++skipped;
+    const message = `Suppressed until ${entry.expires}: ${entry.reason}`;
+    cases.push(
+      formatTestCase(
+        advisory.module,
+        `${advisory.title} (${advisory.id})`,
+        `<skipped message="${escapeXml(message)}"/>`
+      )
+    );
+  }
+
+  for (const entry of expired) {
+    ++failures;
+    const name = `Advisory ${entry.id}${entry.path === undefined ? '' : ` for ${entry.path}`}`;
+    const message = `The ignore entry expired on ${entry.expires}: ${entry.reason}`;
+    cases.push(formatTestCase('audit-ignore', name, `<failure type="expired" message="${escapeXml(message)}"/>`));
+  }
+
+  // A passing test case is reported when there is nothing else so the audit is
+  // shown as having run
+  if (cases.length === 0) {
+    cases.push(formatTestCase('audit', 'No vulnerabilities found'));
+  }
+
+  const counts = `tests="${cases.length}" failures="${failures}" skipped="${skipped}"`;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${TOOL_NAME}" ${counts}>`,
+    `  <testsuite name="${TOOL_NAME}" ${counts}>`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Format the results of an audit as a Markdown summary
+ *
+ * @param results - the results of the audit
+ * @returns the report
+ */
+export function formatMarkdown(results: AuditResults): string {
+  const { advisories, minimum, suppressed, expired, baseline } = results;
+  const lines = ['## Dependency audit', ''];
+
+  if (advisories.length === 0) {
+    lines.push('No vulnerabilities found.', '');
+  } else {
+    const failures = advisories.filter(
+      (advisory) => !isKnown(results, advisory) && compareSeverity(advisory.severity, minimum) >= 0
+    );
+    const added = baseline === undefined ? '' : ` ${baseline.added.length} not in the baseline and`;
+    lines.push(
+      `Found ${advisories.length} ${advisories.length === 1 ? 'vulnerability' : 'vulnerabilities'},` +
+        `${added} ${failures.length} failing at or above ${minimum} severity.`,
+      '',
+      '| Severity | Module | Advisory | Patched | Paths |',
+      '| --- | --- | --- | --- | --- |',
+      ...advisories.map((advisory) => {
+        const title = advisory.url
+          ? `[${escapeMarkdown(advisory.title)}](${advisory.url})`
+          : escapeMarkdown(advisory.title);
+        const paths = advisory.paths.map((dependencyPath) => `\`${dependencyPath}\``).join('<br>');
+        return (
+          `| ${advisory.severity} | ${escapeMarkdown(advisory.module)} | ${title} | ` +
+          `${escapeMarkdown(advisory.patchedVersions || '-')} | ${paths} |`
+        );
+      }),
+      ''
+    );
+  }
+
+  if (baseline !== undefined && baseline.resolved.length > 0) {
+    lines.push(
+      '### Resolved since the baseline',
+      '',
+      ...baseline.resolved.map(
+        (entry) => `- ${escapeMarkdown(entry.module)} advisory ${entry.id}: ${escapeMarkdown(entry.title)}`
+      ),
+      ''
+    );
+  }
+
+  if (suppressed.length > 0) {
+    lines.push(
+      '### Suppressed',
+      '',
+      ...suppressed.map(
+        ({ entry, advisory }) =>
+          `- ${escapeMarkdown(advisory.module)} advisory ${entry.id}` +
+          `${entry.path ? ` for \`${entry.path}\`` : ''} until ${entry.expires}: ${escapeMarkdown(entry.reason)}`
+      ),
+      ''
+    );
+  }
+
+  if (expired.length > 0) {
+    lines.push(
+      '### Expired',
+      '',
+      ...expired.map(
+        (entry) =>
+          `- Advisory ${entry.id}${entry.path ? ` for \`${entry.path}\`` : ''} expired on ${entry.expires}: ` +
+          escapeMarkdown(entry.reason)
+      ),
+      ''
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Format a JUnit XML test case
+ *
+ * @param classname - the class name of the test case, eg: the module
+ * @param name - the name of the test case
+ * @param result - the XML for the failure or skipped element, if any
+ * @returns the test case
+ */
+function formatTestCase(classname: string, name: string, result?: string): string {
+  const testCase = `    <testcase classname="${escapeXml(classname)}" name="${escapeXml(name)}"`;
+  return result === undefined ? `${testCase}/>` : `${testCase}>\n      ${result}\n    </testcase>`;
+}
+
+/**
+ * Check whether an advisory is in the audit baseline, if one was used
+ *
+ * @param results - the results of the audit
+ * @param advisory - the advisory
+ * @returns true if the advisory is in the baseline
+ */
+function isKnown(results: AuditResults, advisory: Advisory): boolean {
+  return results.baseline?.known.includes(advisory) ?? false;
+}
+
+/**
+ * Get the identifier of the SARIF rule for an advisory
+ *
+ * @param advisory - the advisory
+ * @returns the rule identifier
+ */
+function getRuleId(advisory: Advisory): string {
+  return `${advisory.module}/${advisory.id}`;
+}
+
+/**
+ * Describe an advisory in a sentence
+ *
+ * @param advisory - the advisory
+ * @returns the description
+ */
+function describeAdvisory(advisory: Advisory): string {
+  const versions = advisory.versions.length === 0 ? '' : ` ${advisory.versions.join(', ')}`;
+  const patched = advisory.patchedVersions ? `, patched in ${advisory.patchedVersions}` : '';
+  return `${advisory.module}${versions} has a ${advisory.severity} vulnerability: ${advisory.title}${patched}`;
+}
+
+/**
+ * Escape text for use in XML content or attributes
+ *
+ * @param text - the text
+ * @returns the escaped text
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Escape text for use in a Markdown table
+ *
+ * @param text - the text
+ * @returns the escaped text
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]|<])/g, '\\$1');
+}
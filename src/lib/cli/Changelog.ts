@@ -0,0 +1,216 @@
+/**
+ * Support for generating `CHANGELOG.md` sections from the commit history of a
+ * package using the conventional commit format.
+ */
+import { readFile, writeFile } from 'fs/promises';
+
+import { Git } from './Git';
+import { escapeRegExp, isExistingFile } from './SubCommandHelpers';
+
+// The width that entries in the CHANGELOG are wrapped at
+const WRAP_WIDTH = 80;
+
+// Separators used in the `git log` format so that commit fields can be split
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+
+// The headings used for each conventional commit type in the order they appear
+// in a section. Commits of types not listed here are left out of the CHANGELOG.
+// prettier-ignore
+const TYPE_HEADINGS: [string, string][] = [
+  ['feat',     'Features'],
+  ['fix',      'Bug Fixes'],
+  ['perf',     'Performance Improvements'],
+  ['revert',   'Reverts'],
+  ['refactor', 'Code Refactoring'],
+  ['docs',     'Documentation'],
+  ['build',    'Build System'],
+  ['other',    'Other Changes'],
+];
+
+// The subject of commits made by `jetsam release` when bumping the version
+const VERSION_BUMP_REGEX = /^Bump version to /;
+
+/**
+ * A commit parsed according to the conventional commit format
+ */
+export interface ConventionalCommit {
+  hash: string;
+  type: string;
+  scope?: string;
+  description: string;
+  breaking: boolean;
+}
+
+/**
+ * Find the most recent version tag reachable from the current commit
+ *
+ * @param git - the repository
+ * @param tagPrefix - the prefix of version tags
+ * @returns the tag or undefined if there are no version tags
+ */
+export async function findPreviousVersionTag(git: Git, tagPrefix = 'v'): Promise<string | undefined> {
+  return git.findLatestTag(`${tagPrefix}[0-9]*`);
+}
+
+/**
+ * Get the commits made since a given tag, excluding merges, oldest first
+ *
+ * @param git - the repository
+ * @param since - the tag to get the commits since or undefined for all commits
+ * @param dir - only include commits that change this directory, if given
+ * @returns the parsed commits
+ */
+export async function getCommitsSince(git: Git, since?: string, dir?: string): Promise<ConventionalCommit[]> {
+  const format = ['%H', '%s', '%b'].join(FIELD_SEPARATOR) + RECORD_SEPARATOR;
+  const range = since === undefined ? 'HEAD' : `${since}..HEAD`;
+  const paths = dir === undefined ? [] : [dir];
+  const log = await git.log(format, [range], { merges: false, reverse: true, paths });
+
+  return log
+    .split(RECORD_SEPARATOR)
+    .map((record) => record.trim())
+    .filter((record) => record !== '')
+    .map((record) => {
+      const [hash, subject, body] = record.split(FIELD_SEPARATOR);
+      return parseCommit(hash, subject, body ?? '');
+    })
+    .filter((commit) => !VERSION_BUMP_REGEX.test(commit.description));
+}
+
+/**
+ * Parse a commit message according to the conventional commit format. Commits
+ * that do not conform are given the type `other`.
+ *
+ * @param hash - the hash of the commit
+ * @param subject - the subject line of the commit
+ * @param body - the body of the commit message
+ * @returns the parsed commit
+ */
+export function parseCommit(hash: string, subject: string, body: string): ConventionalCommit {
+  const breakingInBody = /^BREAKING[ -]CHANGE: /m.test(body);
+  const match = /^(\w+)(?:\(([^)]+)\))?(!)?: +(.+)$/.exec(subject.trim());
+  if (match === null) {
+    return { hash, type: 'other', description: subject.trim(), breaking: breakingInBody };
+  }
+
+  return {
+    hash,
+    type: match[1].toLowerCase(),
+    scope: match[2],
+    description: match[4],
+    breaking: match[3] === '!' || breakingInBody,
+  };
+}
+
+/**
+ * Format a CHANGELOG section for a version from a list of commits
+ *
+ * @param versionNum - the version number, without any tag prefix
+ * @param commits - the commits to include in the section
+ * @returns the section in markdown including a trailing blank line
+ */
+export function formatSection(versionNum: string, commits: ConventionalCommit[]): string {
+  const lines: string[] = [`## ${versionNum}`, ''];
+
+  // Breaking changes are called out first regardless of their type
+  const breaking = commits.filter((commit) => commit.breaking);
+  if (breaking.length > 0) {
+    lines.push('### Breaking Changes', '', ...breaking.map(formatEntry), '');
+  }
+
+  for (const [type, heading] of TYPE_HEADINGS) {
+    const entries = commits.filter((commit) => !commit.breaking && commit.type === type);
+    if (entries.length > 0) {
+      lines.push(`### ${heading}`, '', ...entries.map(formatEntry), '');
+    }
+  }
+
+  if (lines.length === 2) {
+    lines.push('- No notable changes', '');
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Determine if a CHANGELOG contains a section for a given version
+ *
+ * @param changelog - the contents of the CHANGELOG
+ * @param versionNum - the version number, without any tag prefix
+ * @returns true if there is a section for the version
+ */
+export function hasSection(changelog: string, versionNum: string): boolean {
+  return new RegExp(`^#+ +${escapeRegExp(versionNum)}$`, 'm').test(changelog);
+}
+
+/**
+ * Get the contents of the section for a given version from a CHANGELOG, that
+ * is everything after its heading up to the next heading at the same level
+ *
+ * @param changelog - the contents of the CHANGELOG
+ * @param versionNum - the version number, without any tag prefix
+ * @returns the contents of the section or undefined if there is no section
+ */
+export function getSection(changelog: string, versionNum: string): string | undefined {
+  const heading = new RegExp(`^(#+) +${escapeRegExp(versionNum)}$`, 'm').exec(changelog);
+  if (heading === null) {
+    return undefined;
+  }
+
+  const rest = changelog.slice(heading.index + heading[0].length);
+  const next = new RegExp(`^#{1,${heading[1].length}} `, 'm').exec(rest);
+  const section = (next === null ? rest : rest.slice(0, next.index)).trim();
+  return section === '' ? undefined : `${section}\n`;
+}
+
+/**
+ * Insert a section into a CHANGELOG file, placing it before the first existing
+ * version section. If the CHANGELOG already has a section for the version then
+ * it is replaced.
+ *
+ * @param file - the CHANGELOG file, created if it does not exist
+ * @param versionNum - the version number of the section
+ * @param section - the formatted section
+ * @returns a promise resolved when complete
+ */
+export async function writeSection(file: string, versionNum: string, section: string): Promise<void> {
+  const changelog = (await isExistingFile(file)) ? await readFile(file, 'utf8') : '';
+
+  // Remove any existing section for the version, up to the next section
+  const existing = new RegExp(`^## +${escapeRegExp(versionNum)}\\n[\\s\\S]*?(?=^## |(?![\\s\\S]))`, 'm');
+  const remaining = changelog.replace(existing, '');
+
+  // And insert the new section before the first section that remains
+  const firstSection = remaining.search(/^## /m);
+  const updated =
+    firstSection < 0
+      ? `${remaining.trimEnd()}${remaining.trim() === '' ? '' : '\n\n'}${section}`
+      : `${remaining.slice(0, firstSection)}${section}${remaining.slice(firstSection)}`;
+
+  await writeFile(file, updated.replace(/\n+$/, '\n'), 'utf8');
+}
+
+/**
+ * Format a commit as a CHANGELOG entry wrapped to the standard width
+ *
+ * @param commit - the commit to format
+ * @returns the formatted entry
+ */
+function formatEntry(commit: ConventionalCommit): string {
+  const scope = commit.scope === undefined ? '' : `\`[${commit.scope}]\` `;
+  const description = commit.description.charAt(0).toUpperCase() + commit.description.slice(1);
+
+  const lines: string[] = [];
+  let line = '-';
+  for (const word of `${scope}${description}`.split(/\s+/)) {
+    if (line.length + word.length + 1 > WRAP_WIDTH && line.trim() !== '-') {
+      lines.push(line);
+      line = ' ';
+    }
+    line += ` ${word}`;
+  }
+  lines.push(line);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,203 @@
+import { mkdir, mkdtemp, readFile, rm, stat, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+import { CopyRule, parseCopyRule, resolveCopyRules, syncDistFiles } from './DistFiles';
+import { isExistingFile } from './SubCommandHelpers';
+
+describe('DistFiles', () => {
+  describe('parseCopyRule', () => {
+    it('parses a source with an optional destination', () => {
+      expect(parseCopyRule('LICENSE')).toEqual({ source: 'LICENSE', dest: undefined, keepPaths: false });
+      expect(parseCopyRule('docs/**/*.md:docs', true)).toEqual({
+        source: 'docs/**/*.md',
+        dest: 'docs',
+        keepPaths: true,
+      });
+      expect(parseCopyRule('exports:.')).toEqual({ source: 'exports', dest: '.', keepPaths: false });
+    });
+
+    it.each(['', ':dest', 'src:', '/etc/passwd', 'LICENSE:/tmp/LICENSE'])('rejects "%s"', (entry) => {
+      expect(() => parseCopyRule(entry)).toThrow(`Invalid file "${entry}"`);
+    });
+
+    it.each(['LICENSE:..', 'LICENSE:../keep-me.txt', 'LICENSE:docs/../../keep-me.txt'])(
+      'rejects "%s" as it is outside of the output directory',
+      (entry) => {
+        expect(() => parseCopyRule(entry)).toThrow('the destination must be within the output directory');
+      }
+    );
+  });
+
+  describe('resolveCopyRules', () => {
+    const cwd = process.cwd();
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(os.tmpdir(), 'jetsam-dist-'));
+      process.chdir(dir);
+      for (const file of [
+        'LICENSE',
+        'README.md',
+        'docs/guide.md',
+        'docs/api/index.md',
+        'docs/api/internal.md',
+        'exports/tsconfig.base.json',
+        'bin/run.sh',
+      ]) {
+        await mkdir(path.dirname(file), { recursive: true });
+        await writeFile(file, '');
+      }
+    });
+
+    afterEach(async () => {
+      process.chdir(cwd);
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    const resolve = async (rules: CopyRule[], exclude?: string[]) =>
+      (await resolveCopyRules(rules, 'dist', exclude)).map(({ src, dst }) => [src, dst]);
+
+    it('copies a file into the output directory or to its destination', async () => {
+      expect(await resolve([{ source: 'LICENSE' }, { source: 'README.md', dest: 'docs/README.md' }])).toEqual([
+        ['LICENSE', path.join('dist', 'LICENSE')],
+        ['README.md', path.join('dist', 'docs', 'README.md')],
+      ]);
+    });
+
+    it('copies a directory into the output directory or replaces its destination', async () => {
+      expect(await resolve([{ source: 'exports' }])).toEqual([
+        ['exports/tsconfig.base.json', path.join('dist', 'exports', 'tsconfig.base.json')],
+      ]);
+      expect(await resolve([{ source: 'exports', dest: 'config' }])).toEqual([
+        ['exports/tsconfig.base.json', path.join('dist', 'config', 'tsconfig.base.json')],
+      ]);
+    });
+
+    it('keeps the paths of files relative to the part of a glob before any glob syntax', async () => {
+      expect(await resolve([{ source: 'docs/**/*.md', dest: 'guides' }])).toEqual([
+        ['docs/api/index.md', path.join('dist', 'guides', 'api', 'index.md')],
+        ['docs/api/internal.md', path.join('dist', 'guides', 'api', 'internal.md')],
+        ['docs/guide.md', path.join('dist', 'guides', 'guide.md')],
+      ]);
+    });
+
+    it('keeps the paths of files relative to the project or a base when asked', async () => {
+      expect(await resolve([{ source: 'docs/api/index.md', keepPaths: true }])).toEqual([
+        ['docs/api/index.md', path.join('dist', 'docs', 'api', 'index.md')],
+      ]);
+      expect(await resolve([{ source: 'docs/api/*.md', base: 'docs' }])).toEqual([
+        ['docs/api/index.md', path.join('dist', 'api', 'index.md')],
+        ['docs/api/internal.md', path.join('dist', 'api', 'internal.md')],
+      ]);
+    });
+
+    it('leaves out excluded files and directories', async () => {
+      expect(await resolve([{ source: 'docs' }], ['docs/api'])).toEqual([
+        ['docs/guide.md', path.join('dist', 'docs', 'guide.md')],
+      ]);
+      expect(await resolve([{ source: 'docs/**/*.md' }], ['**/internal.md'])).toEqual([
+        ['docs/api/index.md', path.join('dist', 'api', 'index.md')],
+        ['docs/guide.md', path.join('dist', 'guide.md')],
+      ]);
+    });
+
+    it('renames files and gives scripts their mode', async () => {
+      const rule: CopyRule = { source: 'bin/*.sh', rename: (name) => name.replace(/\.sh$/, ''), scriptMode: 0o755 };
+      expect(await resolveCopyRules([rule], 'dist')).toEqual([
+        { src: 'bin/run.sh', dst: path.join('dist', 'run'), scriptMode: 0o755 },
+      ]);
+    });
+
+    it('lets a later rule replace an earlier one with the same destination', async () => {
+      expect(
+        await resolve([
+          { source: 'LICENSE', dest: 'NOTICE' },
+          { source: 'README.md', dest: 'NOTICE' },
+        ])
+      ).toEqual([['README.md', path.join('dist', 'NOTICE')]]);
+    });
+
+    it('ignores sources that do not exist', async () => {
+      expect(await resolve([{ source: 'CHANGELOG.md' }, { source: 'missing/**' }])).toEqual([]);
+    });
+
+    it('never copies outside of the output directory', async () => {
+      await expect(resolve([{ source: 'LICENSE', dest: '../LICENSE' }])).rejects.toThrow('as it is outside of dist');
+      await expect(resolve([{ source: 'LICENSE', rename: () => '../../LICENSE' }])).rejects.toThrow(
+        'as it is outside of dist'
+      );
+    });
+  });
+
+  describe('syncDistFiles', () => {
+    const cwd = process.cwd();
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(os.tmpdir(), 'jetsam-sync-'));
+      process.chdir(dir);
+      await mkdir('bin');
+      await writeFile('LICENSE', 'MIT license');
+      await writeFile('README.md', 'Read me');
+      await writeFile('bin/run.sh', '#!/bin/sh\n');
+      await writeFile('bin/bad.sh', 'echo\n');
+    });
+
+    afterEach(async () => {
+      process.chdir(cwd);
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('copies new files and only those that have changed since', async () => {
+      const first = await syncDistFiles([{ source: 'LICENSE' }, { source: 'README.md' }], 'dist', [], []);
+      expect(first.copied.map(({ src }) => src)).toEqual(['LICENSE', 'README.md']);
+      expect(first.entries.map(({ path: entryPath, size }) => [entryPath, size])).toEqual([
+        ['LICENSE', 11],
+        ['README.md', 7],
+      ]);
+
+      await writeFile('README.md', 'Read it');
+      const second = await syncDistFiles([{ source: 'LICENSE' }, { source: 'README.md' }], 'dist', [], first.entries);
+      expect(second.copied.map(({ src }) => src)).toEqual(['README.md']);
+      expect(await readFile('dist/README.md', 'utf8')).toBe('Read it');
+    });
+
+    it('restores a copy changed in place, even when its size is the same', async () => {
+      const { entries } = await syncDistFiles([{ source: 'LICENSE' }], 'dist', [], []);
+      await writeFile('dist/LICENSE', 'BSD license');
+
+      const { copied } = await syncDistFiles([{ source: 'LICENSE' }], 'dist', [], entries);
+      expect(copied).toHaveLength(1);
+      expect(await readFile('dist/LICENSE', 'utf8')).toBe('MIT license');
+    });
+
+    it('removes the files that are no longer copied, but only within the output directory', async () => {
+      const { entries } = await syncDistFiles([{ source: 'LICENSE', dest: 'legal/LICENSE' }], 'dist', [], []);
+      const stale = [...entries, { path: '../README.md', size: 7, sha256: entries[0].sha256 }];
+
+      const { removed } = await syncDistFiles([], 'dist', [], stale);
+      expect(removed).toEqual([path.join('dist', 'legal', 'LICENSE')]);
+      expect(await isExistingFile('dist/legal/LICENSE')).toBe(false);
+      expect(await isExistingFile('README.md')).toBe(true);
+    });
+
+    it('gives scripts their mode whether or not they are copied', async () => {
+      const rules = [{ source: 'bin/run.sh', scriptMode: 0o755 }];
+      const { entries } = await syncDistFiles(rules, 'dist', [], []);
+      expect((await stat('dist/run.sh')).mode & 0o777).toBe(0o755);
+
+      await rm('dist/run.sh');
+      await writeFile('dist/run.sh', '#!/bin/sh\n', { mode: 0o644 });
+      const { copied } = await syncDistFiles(rules, 'dist', [], entries);
+      expect(copied).toHaveLength(0);
+      expect((await stat('dist/run.sh')).mode & 0o777).toBe(0o755);
+    });
+
+    it('fails for a script without a shebang', async () => {
+      await expect(syncDistFiles([{ source: 'bin/bad.sh', scriptMode: 0o755 }], 'dist', [], [])).rejects.toThrow(
+        'The script bin/bad.sh does not start with a shebang'
+      );
+    });
+  });
+});
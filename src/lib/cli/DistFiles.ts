@@ -0,0 +1,357 @@
+/**
+ * The rules for copying files into the distribution of a package, where each
+ * rule selects files with a path or glob pattern and maps them to a
+ * destination within the output directory.
+ */
+import { copy } from 'fs-extra';
+import { chmod, open, readdir, rm, rmdir } from 'fs/promises';
+import path from 'path';
+
+import { DistManifestEntry, getDistEntry } from './DistManifest';
+import { expandGlob, globToRegExp, isGlob } from './Glob';
+import { findFiles, isExistingPath } from './SubCommandHelpers';
+
+// Directories that are never watched for changes
+const IGNORED_DIRS = new Set(['node_modules', '.git']);
+
+/**
+ * A rule for the files to copy, given on the command-line as `<source>` or
+ * `<source>:<dest>`
+ */
+export interface CopyRule {
+  // The path or glob pattern of the files to copy, relative to the project
+  source: string;
+
+  // Where the files are copied to, relative to the output directory, which
+  // is the file itself when the source is a single file
+  dest?: string;
+
+  // Whether the files keep their path relative to the project rather than
+  // that relative to the part of the source before any glob, or the directory
+  // containing the source if it is a path
+  keepPaths?: boolean;
+
+  // The directory that the files keep their path relative to, if not one of
+  // those above
+  base?: string;
+
+  // Renames each file copied, eg: to remove an extension
+  rename?: (name: string) => string;
+
+  // The mode that the files are given if they are scripts, in which case each
+  // must start with a shebang, eg: `#!/bin/sh`
+  scriptMode?: number;
+}
+
+/**
+ * A file to be copied into the distribution
+ */
+export interface CopyOperation {
+  src: string;
+  dst: string;
+  scriptMode?: number;
+}
+
+/**
+ * Parse a rule given on the command-line
+ *
+ * @param entry - the rule as `<source>` or `<source>:<dest>`, eg:
+ * `docs/**\/*.md:docs`
+ * @param keepPaths - whether the files keep their path relative to the project
+ * @returns the parsed rule
+ */
+export function parseCopyRule(entry: string, keepPaths = false): CopyRule {
+  const separator = entry.indexOf(':');
+  const source = separator < 0 ? entry : entry.slice(0, separator);
+  const dest = separator < 0 ? undefined : entry.slice(separator + 1);
+  if (source === '' || dest === '' || path.isAbsolute(source) || (dest !== undefined && path.isAbsolute(dest))) {
+    throw new Error(`Invalid file "${entry}", expected <source> or <source>:<dest> relative to the project`);
+  }
+  if (dest !== undefined && path.normalize(dest) !== '.' && !isWithin('.', dest)) {
+    throw new Error(`Invalid file "${entry}", the destination must be within the output directory`);
+  }
+  return { source, dest, keepPaths };
+}
+
+/**
+ * Find the files selected by the rules and where each is to be copied to,
+ * where a later rule that copies to the same destination replaces an earlier
+ * one
+ *
+ * @param rules - the rules
+ * @param outDir - the output directory
+ * @param exclude - glob patterns of the files and directories not to copy,
+ * relative to the project
+ * @returns the files to copy
+ */
+export async function resolveCopyRules(
+  rules: CopyRule[],
+  outDir: string,
+  exclude: string[] = []
+): Promise<CopyOperation[]> {
+  const excluded = exclude.map((pattern) => globToRegExp(normalise(pattern)));
+  const isExcluded = (file: string) => {
+    // A file is also excluded when any of the directories containing it are
+    const segments = file.split('/');
+    return segments.some((_, index) => {
+      const prefix = segments.slice(0, index + 1).join('/');
+      return excluded.some((regex) => regex.test(prefix));
+    });
+  };
+
+  const operations = new Map<string, CopyOperation>();
+  for (const rule of rules) {
+    const source = normalise(rule.source);
+    const stats = isGlob(source) ? null : await isExistingPath(source);
+    const matches = isGlob(source) ? await expandGlob(source) : stats === null ? [] : [source];
+
+    // The path of each file is kept relative to the base, where a directory is
+    // copied into the output directory, or replaces the destination if given
+    const segments = source.split('/');
+    const base = rule.keepPaths
+      ? ''
+      : rule.base !== undefined
+      ? normalise(rule.base)
+      : isGlob(source)
+      ? segments.slice(0, segments.findIndex(isGlob)).join('/')
+      : stats?.isDirectory() && rule.dest === undefined
+      ? path.posix.dirname(source)
+      : source;
+
+    for (const file of await listFiles(matches)) {
+      if (isExcluded(file)) {
+        continue;
+      }
+
+      // A single file is copied to the destination itself, otherwise files are
+      // copied into the destination as a directory
+      const relative =
+        base !== file
+          ? path.posix.relative(base || '.', file)
+          : rule.dest === undefined
+          ? path.posix.basename(file)
+          : '';
+      let dst = path.posix.join(rule.dest ?? '', relative);
+      if (rule.rename !== undefined) {
+        dst = path.posix.join(path.posix.dirname(dst), rule.rename(path.posix.basename(dst)));
+      }
+
+      // Nothing is ever written outside of the output directory
+      const target = path.join(outDir, dst);
+      if (!isWithin(outDir, target)) {
+        throw new Error(`Cannot copy ${file} to ${target} as it is outside of ${outDir}`);
+      }
+      operations.set(target, { src: file, dst: target, scriptMode: rule.scriptMode });
+    }
+  }
+  return [...operations.values()];
+}
+
+/**
+ * Bring the files copied into the output directory up to date with the files
+ * selected by the rules, copying those that are not in the manifest of the
+ * distribution or whose contents, or those of their copies, have changed,
+ * removing those in the manifest that are no longer selected, eg: as they were
+ * deleted or renamed, and giving scripts their mode whether or not they were
+ * copied
+ *
+ * @param rules - the rules
+ * @param outDir - the output directory
+ * @param exclude - glob patterns of the files and directories not to copy
+ * @param previous - the files in the manifest of the distribution
+ * @returns the files now copied, for the manifest, along with those that were
+ * copied and removed by this update
+ */
+export async function syncDistFiles(
+  rules: CopyRule[],
+  outDir: string,
+  exclude: string[],
+  previous: DistManifestEntry[]
+): Promise<{ entries: DistManifestEntry[]; copied: CopyOperation[]; removed: string[] }> {
+  const operations = await resolveCopyRules(rules, outDir, exclude);
+  const known = new Map(previous.map((entry) => [entry.path, entry]));
+
+  const entries: DistManifestEntry[] = [];
+  const copied: CopyOperation[] = [];
+  for (const operation of operations) {
+    const entry = await getDistEntry(operation.src, path.relative(outDir, operation.dst));
+    // The copy is also replaced when it was changed in place, even when its
+    // size is the same
+    const existing = await isExistingPath(operation.dst);
+    if (
+      known.get(entry.path)?.sha256 !== entry.sha256 ||
+      existing?.isFile() !== true ||
+      existing.size !== entry.size ||
+      (await getDistEntry(operation.dst, entry.path)).sha256 !== entry.sha256
+    ) {
+      await copyFile(operation);
+      copied.push(operation);
+    } else if (operation.scriptMode !== undefined && (existing.mode & 0o777) !== operation.scriptMode) {
+      // A script that is up to date still needs its mode, eg: when the mode
+      // was changed in the configuration or on the copy
+      await checkScript(operation.src);
+      await chmod(operation.dst, operation.scriptMode);
+    }
+    entries.push(entry);
+  }
+
+  // Only files within the output directory are removed, whatever the manifest
+  // says
+  const current = new Set(entries.map((entry) => entry.path));
+  const removed = previous
+    .filter((entry) => !current.has(entry.path))
+    .map((entry) => path.join(outDir, entry.path))
+    .filter((file) => isWithin(outDir, file));
+  for (const file of removed) {
+    await rm(file, { force: true });
+    await removeEmptyDirs(path.dirname(file), outDir);
+  }
+  return { entries, copied, removed };
+}
+
+/**
+ * Get the directories that hold the files that could be selected by the rules,
+ * which are those to watch for changes
+ *
+ * @param rules - the rules
+ * @param outDir - the output directory, which is never included
+ * @returns the directories
+ */
+export async function getSourceDirs(rules: CopyRule[], outDir: string): Promise<string[]> {
+  const output = normalise(path.relative('.', outDir));
+  const dirs = new Set<string>();
+  for (const rule of rules) {
+    // Files may be added anywhere below the part of the source before any glob
+    // or below a directory, otherwise only the directory of a file can change
+    const source = normalise(rule.source);
+    const segments = source.split('/');
+    const root = isGlob(source) ? segments.slice(0, segments.findIndex(isGlob)).join('/') || '.' : source;
+    if (!(await isExistingPath(root))?.isDirectory()) {
+      dirs.add(path.posix.dirname(root));
+      continue;
+    }
+
+    const search = async (dir: string) => {
+      dirs.add(dir);
+      for (const entry of await readdir(dir, { withFileTypes: true })) {
+        const child = normalise(path.posix.join(dir, entry.name));
+        if (entry.isDirectory() && !IGNORED_DIRS.has(entry.name) && child !== output) {
+          await search(child);
+        }
+      }
+    };
+    await search(root);
+  }
+  return [...dirs].sort();
+}
+
+/**
+ * Check whether a file starts with a shebang, eg: `#!/usr/bin/env node`
+ *
+ * @param file - the file
+ * @returns true if it starts with a shebang
+ */
+export async function hasShebang(file: string): Promise<boolean> {
+  const handle = await open(file, 'r');
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(2), 0, 2, 0);
+    return bytesRead === 2 && buffer.toString('utf8') === '#!';
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Copy a file into the distribution, giving a script its mode
+ *
+ * @param operation - the file to copy
+ * @returns a promise resolved when complete
+ */
+async function copyFile(operation: CopyOperation): Promise<void> {
+  const { src, dst, scriptMode } = operation;
+  if (scriptMode !== undefined) {
+    await checkScript(src);
+  }
+
+  await copy(src, dst, { overwrite: true, preserveTimestamps: true });
+  if (scriptMode !== undefined) {
+    await chmod(dst, scriptMode);
+  }
+}
+
+/**
+ * Check that a script starts with a shebang
+ *
+ * @param file - the script
+ * @returns a promise resolved when complete
+ */
+async function checkScript(file: string): Promise<void> {
+  if (!(await hasShebang(file))) {
+    throw new Error(`The script ${file} does not start with a shebang, eg: #!/bin/sh`);
+  }
+}
+
+/**
+ * Remove a directory, and then its parents, while they are empty
+ *
+ * @param dir - the directory
+ * @param root - the directory at which to stop
+ * @returns a promise resolved when complete
+ */
+async function removeEmptyDirs(dir: string, root: string): Promise<void> {
+  for (let current = dir; path.relative(root, current).length > 0; current = path.dirname(current)) {
+    try {
+      await rmdir(current);
+    } catch {
+      // Not empty
+      return;
+    }
+  }
+}
+
+/**
+ * List the files that were matched, including those within any directories
+ * matched
+ *
+ * @param matches - the files and directories matched
+ * @returns the files, without duplicates
+ */
+async function listFiles(matches: string[]): Promise<string[]> {
+  const files = new Set<string>();
+  for (const match of matches) {
+    const stats = await isExistingPath(match);
+    if (stats?.isDirectory()) {
+      const found = await findFiles(match, (entry) => entry.stats.isFile());
+      for (const file of found.sort()) {
+        files.add(normalise(path.relative('.', file)));
+      }
+    } else if (stats?.isFile()) {
+      files.add(match);
+    }
+  }
+  return [...files];
+}
+
+/**
+ * Check whether a path is within a directory, rather than being the directory
+ * itself or outside of it
+ *
+ * @param dir - the directory
+ * @param file - the path, relative to the current directory
+ * @returns true if the path is within the directory
+ */
+function isWithin(dir: string, file: string): boolean {
+  const relative = path.relative(path.resolve(dir), path.resolve(file));
+  return relative !== '' && relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+/**
+ * Normalise a path or pattern relative to the project to use `/` as the
+ * separator without a leading `./` or trailing `/`
+ *
+ * @param file - the path or pattern
+ * @returns the normalised path
+ */
+function normalise(file: string): string {
+  return path.posix.normalize(file.split(path.sep).join('/')).replace(/^\.\//, '').replace(/\/$/, '');
+}
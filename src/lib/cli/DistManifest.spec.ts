@@ -0,0 +1,73 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+import {
+  checkDistManifest,
+  getContentsEntry,
+  getDistManifestFile,
+  loadDistManifest,
+  writeDistManifest,
+} from './DistManifest';
+
+describe('DistManifest', () => {
+  const cwd = process.cwd();
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'jetsam-manifest-'));
+    process.chdir(dir);
+    await mkdir('dist');
+    await writeFile('dist/LICENSE', 'MIT license');
+  });
+
+  afterEach(async () => {
+    process.chdir(cwd);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the manifest outside of the output directory', () => {
+    expect(getDistManifestFile('dist')).toBe(path.join('node_modules', '.cache', 'jetsam', 'dist-manifest-dist.json'));
+    expect(getDistManifestFile('packages/a/lib')).toBe(
+      path.join('node_modules', '.cache', 'jetsam', 'dist-manifest-packages_a_lib.json')
+    );
+  });
+
+  it('writes and loads the manifest, sorted by path', async () => {
+    const entries = [getContentsEntry('Read me', 'README.md'), getContentsEntry('MIT license', 'LICENSE')];
+    await writeDistManifest('dist', entries);
+    expect(await loadDistManifest('dist')).toEqual([entries[1], entries[0]]);
+  });
+
+  it('has no manifest until one is written', async () => {
+    expect(await loadDistManifest('dist')).toBeUndefined();
+  });
+
+  it.each([
+    ['not a manifest', 5],
+    ['no list of files', {}],
+    ['a path outside of the output directory', { files: [{ path: '../README.md', size: 1, sha256: 'a'.repeat(64) }] }],
+    ['an absolute path', { files: [{ path: '/etc/passwd', size: 1, sha256: 'a'.repeat(64) }] }],
+    ['an invalid size', { files: [{ path: 'LICENSE', size: -1, sha256: 'a'.repeat(64) }] }],
+    ['an invalid checksum', { files: [{ path: 'LICENSE', size: 1, sha256: 'abc' }] }],
+  ])('rejects a manifest with %s', async (_, contents) => {
+    const file = getDistManifestFile('dist');
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, JSON.stringify(contents));
+    await expect(loadDistManifest('dist')).rejects.toThrow(`The distribution manifest ${file} is not valid`);
+  });
+
+  it('checks the output directory against the manifest', async () => {
+    const license = getContentsEntry('MIT license', 'LICENSE');
+    expect(await checkDistManifest('dist', [license])).toEqual([]);
+
+    await writeFile('dist/LICENSE', 'BSD license');
+    expect(
+      await checkDistManifest('dist', [license, { ...getContentsEntry('x', 'README.md') }, { ...license, size: 3 }])
+    ).toEqual([
+      'LICENSE has a different SHA-256 checksum',
+      'README.md is missing',
+      'LICENSE is 11 bytes rather than 3',
+    ]);
+  });
+});
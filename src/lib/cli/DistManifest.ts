@@ -0,0 +1,161 @@
+/**
+ * The manifest of the files that `build-dist` wrote to the distribution, with
+ * the size and checksum of each, so that unchanged files are not copied again,
+ * files that are no longer copied can be removed and the distribution can be
+ * checked against it. The manifest is kept outside of the distribution so it
+ * is never published.
+ */
+import { createHash } from 'crypto';
+import { readFile, writeFile } from 'fs/promises';
+import mkdirp from 'mkdirp';
+import path from 'path';
+
+import { isExistingFile, isExistingPath } from './SubCommandHelpers';
+
+// The directory that manifests are kept in, which is neither committed nor
+// packed
+const DIST_MANIFEST_DIR = path.join('node_modules', '.cache', 'jetsam');
+
+/**
+ * A file written to the distribution
+ */
+export interface DistManifestEntry {
+  // The path of the file relative to the distribution, using `/`
+  path: string;
+
+  size: number;
+  sha256: string;
+}
+
+/**
+ * Get the path of the manifest of a distribution, which is named after the
+ * output directory so that each has its own
+ *
+ * @param outDir - the output directory of the distribution
+ * @returns the path of the manifest
+ */
+export function getDistManifestFile(outDir: string): string {
+  const name = path.relative('.', path.resolve(outDir)).split(path.sep).join('/') || '.';
+  return path.join(DIST_MANIFEST_DIR, `dist-manifest-${name.replace(/[^\w.-]+/g, '_')}.json`);
+}
+
+/**
+ * Load the manifest of a distribution
+ *
+ * @param outDir - the output directory of the distribution
+ * @returns the files in the manifest, or undefined if there is no manifest
+ */
+export async function loadDistManifest(outDir: string): Promise<DistManifestEntry[] | undefined> {
+  const file = getDistManifestFile(outDir);
+  if (!(await isExistingFile(file))) {
+    return undefined;
+  }
+
+  let contents: unknown;
+  try {
+    contents = JSON.parse(await readFile(file, 'utf8'));
+  } catch (err) {
+    throw new Error(`Failed to read distribution manifest ${file}: ${err}`);
+  }
+
+  const entries =
+    contents !== null && typeof contents === 'object' ? (contents as Record<string, unknown>).files : undefined;
+  if (!Array.isArray(entries) || !entries.every(isDistManifestEntry)) {
+    throw new Error(
+      `The distribution manifest ${file} is not valid, remove it and run "jetsam build-dist" to recreate it`
+    );
+  }
+  return entries;
+}
+
+/**
+ * Write the manifest of a distribution
+ *
+ * @param outDir - the output directory of the distribution
+ * @param entries - the files in the distribution
+ * @returns a promise resolved when complete
+ */
+export async function writeDistManifest(outDir: string, entries: DistManifestEntry[]): Promise<void> {
+  const file = getDistManifestFile(outDir);
+  const files = [...entries].sort((a, b) => a.path.localeCompare(b.path));
+  await mkdirp(path.dirname(file));
+  await writeFile(file, JSON.stringify({ files }, null, 2) + '\n', 'utf8');
+}
+
+/**
+ * Get the manifest entry for a file
+ *
+ * @param file - the file whose contents are recorded
+ * @param entryPath - the path of the file relative to the distribution
+ * @returns the entry
+ */
+export async function getDistEntry(file: string, entryPath: string): Promise<DistManifestEntry> {
+  return getContentsEntry(await readFile(file), entryPath);
+}
+
+/**
+ * Get the manifest entry for a file that is to be written
+ *
+ * @param contents - the contents of the file
+ * @param entryPath - the path of the file relative to the distribution
+ * @returns the entry
+ */
+export function getContentsEntry(contents: string | Buffer, entryPath: string): DistManifestEntry {
+  return {
+    path: entryPath.split(path.sep).join('/'),
+    size: Buffer.byteLength(contents),
+    sha256: createHash('sha256').update(contents).digest('hex'),
+  };
+}
+
+/**
+ * Check the files in a distribution against its manifest
+ *
+ * @param outDir - the output directory of the distribution
+ * @param entries - the files in the manifest
+ * @returns the problems found, if any
+ */
+export async function checkDistManifest(outDir: string, entries: DistManifestEntry[]): Promise<string[]> {
+  const problems: string[] = [];
+  for (const entry of entries) {
+    const file = path.join(outDir, entry.path);
+    if ((await isExistingPath(file))?.isFile() !== true) {
+      problems.push(`${entry.path} is missing`);
+      continue;
+    }
+
+    const actual = await getDistEntry(file, entry.path);
+    if (actual.size !== entry.size) {
+      problems.push(`${entry.path} is ${actual.size} bytes rather than ${entry.size}`);
+    } else if (actual.sha256 !== entry.sha256) {
+      problems.push(`${entry.path} has a different SHA-256 checksum`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Check whether a value read from a manifest is a valid entry, whose path is
+ * relative to the distribution and within it
+ *
+ * @param entry - the value
+ * @returns true if it is a valid entry
+ */
+function isDistManifestEntry(entry: unknown): entry is DistManifestEntry {
+  if (entry === null || typeof entry !== 'object') {
+    return false;
+  }
+
+  const { path: entryPath, size, sha256 } = entry as Record<string, unknown>;
+  return (
+    typeof entryPath === 'string' &&
+    entryPath !== '' &&
+    !path.isAbsolute(entryPath) &&
+    !entryPath.split(/[\\/]/).includes('..') &&
+    typeof size === 'number' &&
+    Number.isSafeInteger(size) &&
+    size >= 0 &&
+    typeof sha256 === 'string' &&
+    /^[0-9a-f]{64}$/.test(sha256)
+  );
+}
@@ -0,0 +1,227 @@
+import { execFile } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+
+import { Git, GitError } from './Git';
+
+const execFileAsync = promisify(execFile);
+
+describe('Git', () => {
+  let root: string;
+  let dir: string;
+  let repo: Git;
+
+  // Run git directly in a repository to set up what the client is tested with
+  const git = async (cwd: string, ...args: string[]) => (await execFileAsync('git', args, { cwd })).stdout.trim();
+
+  // Commit a change to a file in the checkout
+  const commitFile = async (file: string, contents: string, message = `Update ${file}`) => {
+    await writeFile(path.join(dir, file), contents);
+    await git(dir, 'add', file);
+    await git(dir, 'commit', '--quiet', '--message', message);
+  };
+
+  // A checkout with a single commit that has been pushed to its remote
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(os.tmpdir(), 'jetsam-git-'));
+    dir = path.join(root, 'work');
+    await git(root, 'init', '--quiet', '--bare', '--initial-branch=master', 'remote.git');
+    await git(root, 'init', '--quiet', '--initial-branch=master', 'work');
+    for (const [name, value] of [
+      ['user.name', 'Jetsam'],
+      ['user.email', 'jetsam@example.com'],
+      ['commit.gpgSign', 'false'],
+      ['tag.gpgSign', 'false'],
+    ]) {
+      await git(dir, 'config', name, value);
+    }
+    await git(dir, 'remote', 'add', 'origin', path.join(root, 'remote.git'));
+    await commitFile('README.md', 'Read me\n');
+    await git(dir, 'push', '--quiet', 'origin', 'master');
+    repo = new Git(dir);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  describe('reading the repository', () => {
+    it('gets the git directory, current branch and commits', async () => {
+      expect(path.resolve(dir, await repo.getGitDir())).toBe(path.join(dir, '.git'));
+      expect(await repo.getCurrentBranch()).toBe('master');
+      expect(await repo.getCommit('master')).toBe(await git(dir, 'rev-parse', 'HEAD'));
+
+      await git(dir, 'checkout', '--quiet', '--detach');
+      expect(await repo.getCurrentBranch()).toBeUndefined();
+    });
+
+    it('raises an error describing the command that failed', async () => {
+      const error = await repo.getCommit('missing').catch((err) => err);
+      expect(error).toBeInstanceOf(GitError);
+      expect(error.message).toMatch(/^Failed to resolve "missing": fatal: /);
+      expect(error.args).toEqual(['rev-parse', '--verify', 'missing^{commit}']);
+      expect(error.exitStatus).toBe(128);
+    });
+
+    it('finds local and remote branches', async () => {
+      await git(dir, 'branch', 'release/v1.0.0');
+      expect(await repo.branchExists('release/v1.0.0')).toBe(true);
+      expect(await repo.branchExists('release/v2.0.0')).toBe(false);
+      expect(await repo.refExists('refs/heads/master')).toBe(true);
+      expect(await repo.remoteBranchExists('origin', 'master')).toBe(true);
+      expect(await repo.remoteBranchExists('origin', 'release/v1.0.0')).toBe(false);
+
+      await git(dir, 'push', '--quiet', 'origin', 'release/v1.0.0');
+      expect(await repo.listRemoteBranches('origin')).toEqual(['master', 'release/v1.0.0']);
+    });
+
+    it('compares a branch with its remote and finds modified files', async () => {
+      await commitFile('LICENSE', 'MIT license\n');
+      expect(await repo.getAheadBehind('master', 'origin/master')).toEqual({ ahead: 1, behind: 0 });
+      expect(await repo.getAheadBehind('origin/master', 'master')).toEqual({ ahead: 0, behind: 1 });
+      expect(await repo.hasChanges('origin/master', 'master')).toBe(true);
+      expect(await repo.hasChanges('origin/master', 'master', ['README.md'])).toBe(false);
+      expect(await repo.getMergeBase('master', 'origin/master')).toBe(await repo.getCommit('origin/master'));
+      expect(await repo.showFile('master', 'LICENSE')).toBe('MIT license\n');
+
+      expect(await repo.getDirtyFiles()).toEqual([]);
+      await writeFile(path.join(dir, 'README.md'), 'Read this\n');
+      expect(await repo.getDirtyFiles()).toEqual(['README.md']);
+    });
+
+    it('lists the commits and merges in the log', async () => {
+      await repo.createBranch('release/v1.0.0');
+      await commitFile('CHANGELOG.md', '# Changelog\n', 'Add CHANGELOG');
+      await repo.checkout('master');
+      expect(await repo.merge('release/v1.0.0')).toBe(true);
+
+      expect((await repo.log('%s', ['origin/master..master'], { merges: false })).split('\n')).toEqual([
+        'Add CHANGELOG',
+      ]);
+      expect(await repo.log('%s', ['origin/master..master'], { reverse: true })).toBe(
+        "Add CHANGELOG\nMerge branch 'release/v1.0.0'"
+      );
+      expect(await repo.log('%s', ['master'], { paths: ['README.md'] })).toBe('Update README.md');
+      expect(await repo.listMerges(['master', '--not', 'origin/master'])).toEqual([await repo.getCommit('master')]);
+    });
+  });
+
+  describe('changing the repository', () => {
+    it('creates, moves and deletes branches', async () => {
+      await repo.createBranch('release/v1.0.0');
+      await commitFile('LICENSE', 'MIT license\n');
+      expect(await repo.getCurrentBranch()).toBe('release/v1.0.0');
+
+      await repo.checkout('master');
+      await repo.moveBranch('release/v1.0.0', 'master');
+      expect(await repo.getCommit('release/v1.0.0')).toBe(await repo.getCommit('master'));
+
+      await repo.deleteBranch('release/v1.0.0');
+      expect(await repo.branchExists('release/v1.0.0')).toBe(false);
+    });
+
+    it('commits only the files given and resets keeping local changes', async () => {
+      await writeFile(path.join(dir, 'README.md'), 'Read this\n');
+      await writeFile(path.join(dir, 'LICENSE'), 'MIT license\n');
+      await repo.add('LICENSE');
+      await repo.commit('Add LICENSE', ['LICENSE']);
+      expect(await git(dir, 'log', '-1', '--format=%s')).toBe('Add LICENSE');
+      expect(await repo.getDirtyFiles()).toEqual(['README.md']);
+
+      await repo.resetKeep('origin/master');
+      expect(await repo.getCommit('master')).toBe(await repo.getCommit('origin/master'));
+      expect(await repo.getDirtyFiles()).toEqual(['README.md']);
+    });
+
+    it('stops a merge with conflicts to be resolved', async () => {
+      await repo.createBranch('release/v1.0.0');
+      await commitFile('README.md', 'Release\n');
+      await repo.checkout('master');
+      await commitFile('README.md', 'Master\n');
+
+      expect(await repo.merge('release/v1.0.0')).toBe(false);
+      expect(await repo.getConflictedFiles()).toEqual(['README.md']);
+
+      await repo.checkoutOurs('README.md');
+      await repo.add('README.md');
+      await repo.commit(undefined);
+      expect(await repo.listMerges(['master', '--not', 'origin/master'])).toHaveLength(1);
+    });
+
+    it('creates annotated tags with the message kept verbatim and pushes them', async () => {
+      const message = 'Release v1.0.0\n\n# Notes\n\n  - Indented\n';
+      await repo.createTag('v1.0.0', { message });
+      await repo.createTag('v1.1.0-rc.0');
+      expect(await repo.tagExists('v1.0.0')).toBe(true);
+      expect(await git(dir, 'cat-file', '-t', 'v1.0.0')).toBe('tag');
+      expect(await git(dir, 'cat-file', '-t', 'v1.1.0-rc.0')).toBe('commit');
+      expect(
+        (await execFileAsync('git', ['tag', '--list', '--format=%(contents)', 'v1.0.0'], { cwd: dir })).stdout
+      ).toBe(`${message}\n`);
+      expect(await repo.listTags('v1.*')).toEqual(['v1.0.0', 'v1.1.0-rc.0']);
+      expect(await repo.findLatestTag('v1.0.*')).toBe('v1.0.0');
+      expect(await repo.findLatestTag('v2.*')).toBeUndefined();
+
+      expect(await repo.remoteTagExists('origin', 'v1.0.0')).toBe(false);
+      await repo.push('origin', 'v1.0.0');
+      expect(await repo.remoteTagExists('origin', 'v1.0.0')).toBe(true);
+      await repo.deleteRemoteRefs('origin', 'v1.0.0');
+      expect(await repo.remoteTagExists('origin', 'v1.0.0')).toBe(false);
+
+      await repo.deleteTag('v1.0.0');
+      expect(await repo.tagExists('v1.0.0')).toBe(false);
+    });
+
+    it('pushes a new branch and pulls the changes to it', async () => {
+      await repo.createBranch('release/v1.0.0');
+      await repo.pushUpstream('origin', 'release/v1.0.0');
+      expect(await git(dir, 'rev-parse', '--abbrev-ref', 'release/v1.0.0@{upstream}')).toBe('origin/release/v1.0.0');
+
+      // Change the branch on the remote from another checkout
+      const other = path.join(root, 'other');
+      await git(root, 'clone', '--quiet', '--branch', 'release/v1.0.0', 'remote.git', other);
+      await writeFile(path.join(other, 'LICENSE'), 'MIT license\n');
+      await git(other, 'add', 'LICENSE');
+      await git(other, '-c', 'user.name=Other', '-c', 'user.email=other@example.com', 'commit', '--quiet', '-m', 'Add');
+      await git(other, 'push', '--quiet');
+
+      await repo.pull('origin', 'release/v1.0.0');
+      expect(await repo.getCommit('HEAD')).toBe(await git(other, 'rev-parse', 'HEAD'));
+
+      await git(other, 'push', '--quiet', 'origin', '--delete', 'release/v1.0.0');
+      await repo.fetch('origin');
+      expect(await repo.remoteBranchExists('origin', 'release/v1.0.0')).toBe(false);
+    });
+  });
+
+  describe('a dry-run', () => {
+    it('records the commands that would change the repository rather than running them', async () => {
+      const actions: [string, string[]][] = [];
+      const dryRun = new Git(dir, { dryRun: (description, command) => actions.push([description, command]) });
+
+      await dryRun.createBranch('release/v1.0.0');
+      await dryRun.commit('Bump version to 1.0.0', ['package.json']);
+      expect(await dryRun.merge('release/v1.0.0')).toBe(true);
+      await dryRun.createTag('v1.0.0', { message: 'Release v1.0.0' });
+      await dryRun.push('origin', 'master', 'v1.0.0');
+      expect(actions).toEqual([
+        ['Create release/v1.0.0', ['git', 'checkout', '-b', 'release/v1.0.0']],
+        ['Commit the changes', ['git', 'commit', '--message', 'Bump version to 1.0.0', '--', 'package.json']],
+        ['Merge release/v1.0.0', ['git', 'merge', '--no-ff', '--no-edit', 'release/v1.0.0']],
+        [
+          'Create the tag "v1.0.0"',
+          ['git', 'tag', '--annotate', '--cleanup=verbatim', '--message', 'Release v1.0.0', 'v1.0.0'],
+        ],
+        ['Push master, v1.0.0 to origin', ['git', 'push', 'origin', 'master', 'v1.0.0']],
+      ]);
+
+      // Whereas what only reads the repository is still run
+      expect(await dryRun.getCurrentBranch()).toBe('master');
+      expect(await dryRun.branchExists('release/v1.0.0')).toBe(false);
+      expect(await dryRun.tagExists('v1.0.0')).toBe(false);
+      expect(await git(root, 'ls-remote', '--tags', 'remote.git')).toBe('');
+    });
+  });
+});
@@ -0,0 +1,628 @@
+/**
+ * A typed client for the git repository that a sub-command operates on. Each
+ * method runs `git` in the working directory of the client and raises a
+ * `GitError` describing what failed rather than returning an exit status.
+ */
+import { spawn } from 'child_process';
+
+/**
+ * The error raised when a git command fails
+ */
+export class GitError extends Error {
+  /**
+   * Constructor
+   *
+   * @param message - a description of what failed
+   * @param args - the arguments passed to git
+   * @param exitStatus - the exit status of git, if it ran
+   * @param stderr - what git wrote to stderr, if it was captured
+   */
+  constructor(
+    message: string,
+    public readonly args: string[],
+    public readonly exitStatus?: number,
+    public readonly stderr = ''
+  ) {
+    super(stderr === '' ? message : `${message}: ${stderr}`);
+    this.name = 'GitError';
+  }
+}
+
+/**
+ * The number of commits a branch is ahead of and behind another
+ */
+export interface AheadBehind {
+  ahead: number;
+  behind: number;
+}
+
+/**
+ * The options for listing the commits in the log
+ */
+export interface LogOptions {
+  // Whether to only include merges or to leave them out
+  merges?: boolean;
+
+  // Only include commits on the ancestry path between the revisions
+  ancestryPath?: boolean;
+
+  // List the commits oldest first
+  reverse?: boolean;
+
+  // Only include commits that change these paths
+  paths?: string[];
+}
+
+/**
+ * The options for creating a tag
+ */
+export interface TagOptions {
+  // The message of an annotated tag, which is kept verbatim
+  message?: string;
+
+  // Whether the tag is signed
+  sign?: boolean;
+}
+
+/**
+ * The options for a repository
+ */
+export interface GitOptions {
+  // When given, the commands that would change the repository are passed to
+  // this, along with a description of what they do, rather than being run
+  dryRun?: (description: string, command: string[]) => void;
+}
+
+/**
+ * The result of running git
+ */
+interface GitResult {
+  exitStatus: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * A git repository
+ */
+export class Git {
+  /**
+   * Constructor
+   *
+   * @param dir - the working directory of the repository, defaults to the
+   * current directory
+   * @param options - the options for the repository
+   */
+  constructor(public readonly dir = '.', private readonly options: GitOptions = {}) {}
+
+  /**
+   * Get the path to the git directory
+   *
+   * @returns the path, relative to the working directory if within it
+   */
+  public async getGitDir(): Promise<string> {
+    return this.output(['rev-parse', '--git-dir'], 'determine the git directory');
+  }
+
+  /**
+   * Get the name of the branch that is checked out
+   *
+   * @returns the branch name or undefined if the HEAD is detached
+   */
+  public async getCurrentBranch(): Promise<string | undefined> {
+    const branch = await this.output(['branch', '--show-current'], 'get the current branch');
+    return branch === '' ? undefined : branch;
+  }
+
+  /**
+   * Get the commit that a revision refers to
+   *
+   * @param rev - the revision
+   * @returns the hash of the commit
+   */
+  public async getCommit(rev: string): Promise<string> {
+    return this.output(['rev-parse', '--verify', `${rev}^{commit}`], `resolve "${rev}"`);
+  }
+
+  /**
+   * Check whether a ref exists
+   *
+   * @param ref - the ref, preferably fully qualified
+   * @returns true if it exists
+   */
+  public async refExists(ref: string): Promise<boolean> {
+    return this.test(['rev-parse', '--verify', '--quiet', ref], `check whether "${ref}" exists`);
+  }
+
+  /**
+   * Check whether a local tag exists
+   *
+   * @param tag - the name of the tag
+   * @returns true if it exists
+   */
+  public async tagExists(tag: string): Promise<boolean> {
+    return this.refExists(`refs/tags/${tag}`);
+  }
+
+  /**
+   * Check whether a local branch exists
+   *
+   * @param branch - the name of the branch
+   * @returns true if it exists
+   */
+  public async branchExists(branch: string): Promise<boolean> {
+    return this.refExists(`refs/heads/${branch}`);
+  }
+
+  /**
+   * Check whether a branch is known to exist on a remote as of the last fetch
+   *
+   * @param remote - the name of the remote
+   * @param branch - the name of the branch
+   * @returns true if it exists
+   */
+  public async remoteBranchExists(remote: string, branch: string): Promise<boolean> {
+    return this.refExists(`refs/remotes/${remote}/${branch}`);
+  }
+
+  /**
+   * Check whether a tag exists on a remote by asking the remote
+   *
+   * @param remote - the name of the remote
+   * @param tag - the name of the tag
+   * @returns true if it exists
+   */
+  public async remoteTagExists(remote: string, tag: string): Promise<boolean> {
+    const refs = await this.output(['ls-remote', '--tags', remote, `refs/tags/${tag}`], `list the tags on ${remote}`);
+    return refs !== '';
+  }
+
+  /**
+   * List the branches known to exist on a remote as of the last fetch
+   *
+   * @param remote - the name of the remote
+   * @returns the names of the branches
+   */
+  public async listRemoteBranches(remote: string): Promise<string[]> {
+    const refs = await this.output(
+      ['for-each-ref', '--format=%(refname:lstrip=3)', `refs/remotes/${remote}`],
+      `list the branches of ${remote}`
+    );
+    return splitLines(refs).filter((branch) => branch !== 'HEAD');
+  }
+
+  /**
+   * List the tags matching a pattern
+   *
+   * @param pattern - the glob pattern of the tags
+   * @param mergedInto - only list the tags reachable from this revision
+   * @returns the names of the tags
+   */
+  public async listTags(pattern: string, mergedInto?: string): Promise<string[]> {
+    const merged = mergedInto === undefined ? [] : ['--merged', mergedInto];
+    return splitLines(await this.output(['tag', '--list', ...merged, pattern], `list the tags matching "${pattern}"`));
+  }
+
+  /**
+   * Find the most recent tag matching a pattern that is reachable from the
+   * current commit
+   *
+   * @param pattern - the glob pattern of the tags
+   * @returns the tag or undefined if there is none
+   */
+  public async findLatestTag(pattern: string): Promise<string | undefined> {
+    const result = await this.exec(['describe', '--tags', '--abbrev=0', '--match', pattern], 'pipe');
+    return result.exitStatus === 0 && result.stdout.trim() !== '' ? result.stdout.trim() : undefined;
+  }
+
+  /**
+   * Count the commits a revision is ahead of and behind another
+   *
+   * @param rev - the revision, eg: a local branch
+   * @param upstream - the revision to compare with, eg: its remote branch
+   * @returns the number of commits ahead and behind
+   */
+  public async getAheadBehind(rev: string, upstream: string): Promise<AheadBehind> {
+    const counts = await this.output(
+      ['rev-list', '--left-right', '--count', '--ignore-submodules', `${rev}...${upstream}`],
+      `compare ${rev} with ${upstream}`
+    );
+    const [ahead, behind] = counts.split(/\s+/).map(Number);
+    return { ahead, behind };
+  }
+
+  /**
+   * Get the version controlled files that have been modified in the checkout,
+   * whether staged or not
+   *
+   * @returns the paths of the modified files
+   */
+  public async getDirtyFiles(): Promise<string[]> {
+    return splitLines(
+      await this.output(
+        ['diff-index', '--name-only', '--ignore-submodules', 'HEAD', '--'],
+        'determine whether the checkout is clean'
+      )
+    );
+  }
+
+  /**
+   * Get the files with unresolved merge conflicts
+   *
+   * @returns the paths of the conflicted files
+   */
+  public async getConflictedFiles(): Promise<string[]> {
+    return splitLines(await this.output(['diff', '--name-only', '--diff-filter=U'], 'list the conflicted files'));
+  }
+
+  /**
+   * Check whether any files have changed between two revisions
+   *
+   * @param from - the earlier revision
+   * @param to - the later revision
+   * @param paths - only consider changes to these paths
+   * @returns true if there are changes
+   */
+  public async hasChanges(from: string, to: string, paths: string[] = []): Promise<boolean> {
+    const where = paths.length === 0 ? '' : ` to ${paths.join(', ')}`;
+    return !(await this.test(['diff', '--quiet', from, to, '--', ...paths], `find the changes${where} since ${from}`));
+  }
+
+  /**
+   * Find the best common ancestor of two revisions
+   *
+   * @param a - the first revision
+   * @param b - the second revision
+   * @returns the hash of the common ancestor
+   */
+  public async getMergeBase(a: string, b: string): Promise<string> {
+    return this.output(['merge-base', a, b], `find the merge base of ${a} and ${b}`);
+  }
+
+  /**
+   * Read a file as of a revision
+   *
+   * @param rev - the revision
+   * @param file - the path of the file relative to the root of the repository
+   * @returns the contents of the file
+   */
+  public async showFile(rev: string, file: string): Promise<string> {
+    return this.output(['show', `${rev}:${file}`], `read ${file} from ${rev}`, false);
+  }
+
+  /**
+   * List the commits in the log in a given format
+   *
+   * @param format - the `--format` of each commit
+   * @param revisions - the revisions to list, including any `--not` exclusions
+   * @param options - the options for the listing
+   * @returns the formatted commits, newest first unless reversed
+   */
+  public async log(format: string, revisions: string[], options: LogOptions = {}): Promise<string> {
+    const args = ['log', `--format=${format}`];
+    if (options.merges !== undefined) {
+      args.push(options.merges ? '--merges' : '--no-merges');
+    }
+    if (options.ancestryPath === true) {
+      args.push('--ancestry-path');
+    }
+    if (options.reverse === true) {
+      args.push('--reverse');
+    }
+    args.push(...revisions, '--', ...(options.paths ?? []));
+    return this.output(args, `read the log of ${revisions.join(' ')}`);
+  }
+
+  /**
+   * List the merge commits reachable from some revisions
+   *
+   * @param revisions - the revisions, including any `--not` exclusions
+   * @returns the hashes of the merge commits
+   */
+  public async listMerges(revisions: string[]): Promise<string[]> {
+    return splitLines(
+      await this.output(['rev-list', '--min-parents=2', ...revisions], `list the merges in ${revisions.join(' ')}`)
+    );
+  }
+
+  /**
+   * Fetch from a remote, removing any remote branches that no longer exist
+   *
+   * @param remote - the name of the remote
+   * @returns a promise resolved when complete
+   */
+  public async fetch(remote: string): Promise<void> {
+    await this.output(['fetch', '--quiet', '--prune', remote], `fetch from ${remote}`);
+  }
+
+  /**
+   * Check out a branch or other revision
+   *
+   * @param rev - the revision to check out
+   * @returns a promise resolved when complete
+   */
+  public async checkout(rev: string): Promise<void> {
+    await this.run(['checkout', rev], `check out ${rev}`);
+  }
+
+  /**
+   * Create a branch and check it out
+   *
+   * @param branch - the name of the new branch
+   * @param startPoint - where the branch starts, defaults to the HEAD
+   * @returns a promise resolved when complete
+   */
+  public async createBranch(branch: string, startPoint?: string): Promise<void> {
+    await this.run(['checkout', '-b', branch, ...(startPoint === undefined ? [] : [startPoint])], `create ${branch}`);
+  }
+
+  /**
+   * Move a branch that is not checked out to a revision
+   *
+   * @param branch - the name of the branch
+   * @param rev - the revision to move it to
+   * @returns a promise resolved when complete
+   */
+  public async moveBranch(branch: string, rev: string): Promise<void> {
+    await this.run(['branch', '--force', branch, rev], `move ${branch} to ${rev}`);
+  }
+
+  /**
+   * Reset the branch that is checked out to a revision, keeping any local
+   * changes that do not conflict
+   *
+   * @param rev - the revision to reset to
+   * @returns a promise resolved when complete
+   */
+  public async resetKeep(rev: string): Promise<void> {
+    await this.run(['reset', '--keep', rev], `reset to ${rev}`);
+  }
+
+  /**
+   * Delete a local branch, even if it has not been merged
+   *
+   * @param branch - the name of the branch
+   * @returns a promise resolved when complete
+   */
+  public async deleteBranch(branch: string): Promise<void> {
+    await this.run(['branch', '--delete', '--force', branch], `delete the local branch ${branch}`);
+  }
+
+  /**
+   * Pull a branch from a remote, rebasing any local commits
+   *
+   * @param remote - the name of the remote
+   * @param branch - the name of the branch
+   * @returns a promise resolved when complete
+   */
+  public async pull(remote: string, branch: string): Promise<void> {
+    await this.run(['pull', '--rebase', remote, branch], `pull ${branch} from ${remote}`);
+  }
+
+  /**
+   * Push refs to a remote
+   *
+   * @param remote - the name of the remote
+   * @param refs - the branches and tags to push
+   * @returns a promise resolved when complete
+   */
+  public async push(remote: string, ...refs: string[]): Promise<void> {
+    await this.run(['push', remote, ...refs], `push ${refs.join(', ')} to ${remote}`);
+  }
+
+  /**
+   * Push a new branch to a remote, setting it as the upstream of the local one
+   *
+   * @param remote - the name of the remote
+   * @param branch - the name of the branch
+   * @returns a promise resolved when complete
+   */
+  public async pushUpstream(remote: string, branch: string): Promise<void> {
+    await this.run(['push', '--set-upstream', remote, branch], `push ${branch} to ${remote}`);
+  }
+
+  /**
+   * Delete refs from a remote
+   *
+   * @param remote - the name of the remote
+   * @param refs - the branches and tags to delete
+   * @returns a promise resolved when complete
+   */
+  public async deleteRemoteRefs(remote: string, ...refs: string[]): Promise<void> {
+    await this.run(['push', '--delete', remote, ...refs], `delete ${refs.join(', ')} from ${remote}`);
+  }
+
+  /**
+   * Stage files to be committed
+   *
+   * @param files - the paths of the files
+   * @returns a promise resolved when complete
+   */
+  public async add(...files: string[]): Promise<void> {
+    await this.run(['add', '--', ...files], `stage ${files.join(', ')}`);
+  }
+
+  /**
+   * Make a commit
+   *
+   * @param message - the commit message, or undefined to use the message of a
+   * merge or cherry-pick in progress
+   * @param files - only commit these files rather than what is staged
+   * @returns a promise resolved when complete
+   */
+  public async commit(message: string | undefined, files: string[] = []): Promise<void> {
+    const messageArgs = message === undefined ? ['--no-edit'] : ['--message', message];
+    await this.run(['commit', ...messageArgs, '--', ...files], 'commit the changes');
+  }
+
+  /**
+   * Merge a revision into the branch that is checked out, always creating a
+   * merge commit
+   *
+   * @param rev - the revision to merge
+   * @param commit - false to stop before committing the merge
+   * @returns true if merged or false if there are conflicts to resolve
+   */
+  public async merge(rev: string, commit = true): Promise<boolean> {
+    const args = ['merge', '--no-ff', commit ? '--no-edit' : '--no-commit', rev];
+    if (this.options.dryRun !== undefined) {
+      this.options.dryRun(`Merge ${rev}`, ['git', ...args]);
+      return true;
+    }
+
+    const result = await this.exec(args, 'inherit');
+    if (result.exitStatus === 0) {
+      return true;
+    }
+    if ((await this.getConflictedFiles()).length > 0) {
+      return false;
+    }
+    throw new GitError(`Failed to merge ${rev}`, args, result.exitStatus);
+  }
+
+  /**
+   * Apply commits to the branch that is checked out, recording where each was
+   * cherry-picked from
+   *
+   * @param commits - the commits to apply, oldest first
+   * @returns a promise resolved when complete
+   */
+  public async cherryPick(commits: string[]): Promise<void> {
+    await this.run(['cherry-pick', '-x', ...commits], 'cherry-pick the commits');
+  }
+
+  /**
+   * Restore files with conflicts to the version on the branch checked out
+   *
+   * @param files - the paths of the files
+   * @returns a promise resolved when complete
+   */
+  public async checkoutOurs(...files: string[]): Promise<void> {
+    await this.run(['checkout', '--ours', '--', ...files], `restore our version of ${files.join(', ')}`);
+  }
+
+  /**
+   * Create a tag on the current commit, which is annotated if given a message
+   *
+   * @param tag - the name of the tag
+   * @param options - the options for the tag
+   * @returns a promise resolved when complete
+   */
+  public async createTag(tag: string, options: TagOptions = {}): Promise<void> {
+    const args = ['tag'];
+    if (options.sign === true) {
+      args.push('--sign');
+    } else if (options.message !== undefined) {
+      args.push('--annotate');
+    }
+    if (options.message !== undefined) {
+      args.push('--cleanup=verbatim', '--message', options.message);
+    }
+    await this.run([...args, tag], `create the tag "${tag}"`);
+  }
+
+  /**
+   * Delete a local tag
+   *
+   * @param tag - the name of the tag
+   * @returns a promise resolved when complete
+   */
+  public async deleteTag(tag: string): Promise<void> {
+    await this.run(['tag', '--delete', tag], `delete the local tag "${tag}"`);
+  }
+
+  /**
+   * Run git, showing its output, and raise an error if it fails. On a dry-run
+   * the command is only passed on to be recorded.
+   *
+   * @param args - the arguments for git
+   * @param action - what is being done, for the error
+   * @returns a promise resolved when complete
+   */
+  private async run(args: string[], action: string): Promise<void> {
+    if (this.options.dryRun !== undefined) {
+      this.options.dryRun(action.charAt(0).toUpperCase() + action.slice(1), ['git', ...args]);
+      return;
+    }
+
+    const result = await this.exec(args, 'inherit');
+    if (result.exitStatus !== 0) {
+      throw new GitError(`Failed to ${action}`, args, result.exitStatus);
+    }
+  }
+
+  /**
+   * Run git and return its output, raising an error if it fails
+   *
+   * @param args - the arguments for git
+   * @param action - what is being done, for the error
+   * @param chomp - whether to remove the trailing newline
+   * @returns the output of git
+   */
+  private async output(args: string[], action: string, chomp = true): Promise<string> {
+    const result = await this.exec(args, 'pipe');
+    if (result.exitStatus !== 0) {
+      throw new GitError(`Failed to ${action}`, args, result.exitStatus, result.stderr.trim());
+    }
+    return chomp ? result.stdout.replace(/\n$/, '') : result.stdout;
+  }
+
+  /**
+   * Run git as a test where an exit status of 0 is true and 1 is false. Any
+   * other exit status is raised as an error.
+   *
+   * @param args - the arguments for git
+   * @param action - what is being done, for the error
+   * @returns the result of the test
+   */
+  private async test(args: string[], action: string): Promise<boolean> {
+    const result = await this.exec(args, 'pipe');
+    if (result.exitStatus !== 0 && result.exitStatus !== 1) {
+      throw new GitError(`Failed to ${action}`, args, result.exitStatus, result.stderr.trim());
+    }
+    return result.exitStatus === 0;
+  }
+
+  /**
+   * Run git in the working directory
+   *
+   * @param args - the arguments for git
+   * @param stdio - whether the output of git is shown or captured
+   * @returns the exit status and any captured output
+   */
+  private exec(args: string[], stdio: 'inherit' | 'pipe'): Promise<GitResult> {
+    return new Promise((resolve, reject) => {
+      const child = spawn('git', args, { cwd: this.dir, stdio: ['inherit', stdio, stdio] });
+
+      // Read the captured output
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+      child.stdout?.on('data', (buffer) => stdout.push(buffer));
+      child.stderr?.on('data', (buffer) => stderr.push(buffer));
+
+      // Take care to only fulfill the promise exactly once
+      let fulfilled = 0;
+      child.on('error', (err) => !fulfilled++ && reject(new GitError(`Failed to run git: ${err.message}`, args)));
+      child.on(
+        'close',
+        (code) =>
+          !fulfilled++ &&
+          resolve({
+            exitStatus: code ?? -1,
+            stdout: Buffer.concat(stdout).toString(),
+            stderr: Buffer.concat(stderr).toString(),
+          })
+      );
+    });
+  }
+}
+
+/**
+ * Split the output of git into lines, ignoring a blank result
+ *
+ * @param output - the output
+ * @returns the lines
+ */
+function splitLines(output: string): string[] {
+  return output === '' ? [] : output.split('\n');
+}
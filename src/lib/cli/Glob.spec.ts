@@ -0,0 +1,78 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+import { expandGlob, globToRegExp, isGlob } from './Glob';
+
+describe('Glob', () => {
+  describe('isGlob', () => {
+    it('detects glob syntax', () => {
+      expect(isGlob('src/**/*.ts')).toBe(true);
+      expect(isGlob('file?.txt')).toBe(true);
+      expect(isGlob('{a,b}.md')).toBe(true);
+      expect(isGlob('docs/README.md')).toBe(false);
+    });
+  });
+
+  describe('globToRegExp', () => {
+    it.each([
+      ['*.md', 'README.md', true],
+      ['*.md', 'docs/README.md', false],
+      ['docs/*.md', 'docs/README.md', true],
+      ['**/*.md', 'README.md', true],
+      ['**/*.md', 'docs/api/README.md', true],
+      ['docs/**', 'docs/api/README.md', true],
+      ['docs/**/index.js', 'docs/index.js', true],
+      ['docs/**/index.js', 'docs/a/b/index.js', true],
+      ['file?.txt', 'file1.txt', true],
+      ['file?.txt', 'file10.txt', false],
+      ['*.{js,json}', 'package.json', true],
+      ['*.{js,json}', 'index.ts', false],
+      ['lib/{a,b/*}.js', 'lib/b/c.js', true],
+      ['a+b(c).txt', 'a+b(c).txt', true],
+      ['{a.txt', '{a.txt', true],
+    ])('%s matching %s is %s', (pattern, file, expected) => {
+      expect(globToRegExp(pattern).test(file)).toBe(expected);
+    });
+  });
+
+  describe('expandGlob', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(os.tmpdir(), 'jetsam-glob-'));
+      for (const file of [
+        'README.md',
+        'docs/guide.md',
+        'docs/api/index.md',
+        'docs/api/index.js',
+        'node_modules/x.md',
+      ]) {
+        await mkdir(path.join(dir, path.dirname(file)), { recursive: true });
+        await writeFile(path.join(dir, file), '');
+      }
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('finds the files matching a pattern, sorted', async () => {
+      expect(await expandGlob('**/*.md', dir)).toEqual(['README.md', 'docs/api/index.md', 'docs/guide.md']);
+    });
+
+    it('only searches below the part of the pattern without glob syntax', async () => {
+      expect(await expandGlob('./docs/*', dir)).toEqual(['docs/api', 'docs/guide.md']);
+      expect(await expandGlob('docs/*/*.js', dir)).toEqual(['docs/api/index.js']);
+    });
+
+    it('returns a path without glob syntax only if it exists', async () => {
+      expect(await expandGlob('docs/guide.md', dir)).toEqual(['docs/guide.md']);
+      expect(await expandGlob('docs/missing.md', dir)).toEqual([]);
+    });
+
+    it('returns nothing when the directory to search does not exist', async () => {
+      expect(await expandGlob('missing/**/*.md', dir)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * A minimal glob implementation supporting the patterns used in package
+ * manifests and on the command-line, that is, `*`, `?`, `**` and `{a,b}`
+ * alternatives. Paths always use `/` as the separator.
+ */
+import { readdir } from 'fs/promises';
+import path from 'path';
+
+import { escapeRegExp, isExistingPath } from './SubCommandHelpers';
+
+// Directories that are never searched when expanding a glob
+const IGNORED_DIRS = new Set(['node_modules', '.git']);
+
+/**
+ * Check whether some text contains any glob syntax
+ *
+ * @param text - the text to check
+ * @returns true if it is a glob pattern
+ */
+export function isGlob(text: string): boolean {
+  return /[*?{]/.test(text);
+}
+
+/**
+ * Convert a glob pattern to a regular expression that matches the whole of a
+ * path
+ *
+ * @param pattern - the glob pattern
+ * @returns the regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let regex = '';
+  for (let i = 0; i < pattern.length; ++i) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // A `**` segment matches any number of directories, including none
+      const wholeSegment = (i === 0 || pattern[i - 1] === '/') && (i + 2 === pattern.length || pattern[i + 2] === '/');
+      if (wholeSegment && pattern[i + 2] === '/') {
+        regex += '(?:[^/]+/)*';
+        i += 2;
+      } else {
+        regex += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      regex += '[^/]*';
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i);
+      if (end === -1) {
+        regex += escapeRegExp(char);
+      } else {
+        const alternatives = pattern.slice(i + 1, end).split(',');
+        regex += `(?:${alternatives.map((alternative) => globToRegExp(alternative).source.slice(1, -1)).join('|')})`;
+        i = end;
+      }
+    } else {
+      regex += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${regex}$`);
+}
+
+/**
+ * Find the files and directories matching a glob pattern
+ *
+ * @param pattern - the glob pattern, relative to the base directory
+ * @param baseDir - the directory the pattern is relative to
+ * @returns the matching paths relative to the base directory, sorted
+ */
+export async function expandGlob(pattern: string, baseDir = '.'): Promise<string[]> {
+  const normalised = path.posix.normalize(pattern).replace(/^\.\//, '').replace(/\/$/, '');
+  const regex = globToRegExp(normalised);
+
+  // Only search below the part of the pattern without any glob syntax and only
+  // as deep as the pattern could match
+  const segments = normalised.split('/');
+  const firstGlob = segments.findIndex(isGlob);
+  if (firstGlob === -1) {
+    return (await isExistingPath(path.join(baseDir, normalised))) !== null ? [normalised] : [];
+  }
+  const root = segments.slice(0, firstGlob).join('/');
+  const maxDepth = normalised.includes('**') ? Infinity : segments.length - firstGlob;
+
+  const matches: string[] = [];
+  const search = async (dir: string, depth: number) => {
+    let entries;
+    try {
+      entries = await readdir(path.join(baseDir, dir), { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const relative = dir === '' ? entry.name : `${dir}/${entry.name}`;
+      if (regex.test(relative)) {
+        matches.push(relative);
+      }
+      if (entry.isDirectory() && !IGNORED_DIRS.has(entry.name) && depth < maxDepth) {
+        await search(relative, depth + 1);
+      }
+    }
+  };
+  await search(root, 1);
+  return matches.sort();
+}
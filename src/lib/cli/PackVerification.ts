@@ -0,0 +1,285 @@
+/**
+ * Verification of the contents of a packed bundle, making sure that what the
+ * packed `package.json` refers to is present and that nothing is shipped that
+ * should not be.
+ */
+import chalk from 'chalk';
+import path from 'path';
+
+import { globToRegExp } from './Glob';
+import { PackConfig } from './ProjectConfig';
+import { escapeRegExp } from './SubCommandHelpers';
+import { readTarball } from './Tarball';
+
+// The directory that npm places the package contents in within the tarball
+const PACKAGE_DIR = 'package/';
+
+// Files that should not be shipped along with why, unless they are allowed
+const UNWANTED_FILES: [RegExp, string][] = [
+  [/(^|\/)[^/]+\.(spec|test)\.[^/]+$/, 'test file'],
+  [/(^|\/)(__tests__|__mocks__)\//, 'test file'],
+  [/(^|\/)(junit|test-report|test-results)[^/]*\.xml$/i, 'test report'],
+  [/(^|\/)(coverage|\.nyc_output|test-results)\//, 'test report'],
+  [/(^|\/)lcov\.info$|\.lcov$/, 'coverage report'],
+];
+
+// The units that sizes may be given in
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1000,
+  mb: 1000 ** 2,
+  gb: 1000 ** 3,
+  kib: 1024,
+  mib: 1024 ** 2,
+  gib: 1024 ** 3,
+};
+
+/**
+ * The results of inspecting a packed bundle
+ */
+export interface PackReport {
+  // The path to the bundle
+  bundle: string;
+
+  // The files in the package, relative to the package directory
+  files: { path: string; size: number }[];
+
+  // The total size of the files and the largest size allowed, 0 if unlimited
+  totalSize: number;
+  maxSize: number;
+
+  // The problems found with the contents, along with those that do not stop
+  // the bundle from being used
+  problems: string[];
+  warnings: string[];
+}
+
+/**
+ * Inspect the contents of a packed bundle
+ *
+ * @param bundle - the path to the bundle
+ * @param config - the largest the unpacked contents may be, 0 if unlimited,
+ * and the glob patterns of the files that are allowed to be shipped
+ * @returns the report of what was found
+ */
+export async function inspectPack(bundle: string, config: PackConfig = { maxSize: 0, allow: [] }): Promise<PackReport> {
+  const entries = (await readTarball(bundle)).filter((entry) => entry.type === 'file');
+  const contents = new Map(
+    entries
+      .filter((entry) => entry.path.startsWith(PACKAGE_DIR))
+      .map((entry) => [entry.path.slice(PACKAGE_DIR.length), entry.data])
+  );
+
+  const report: PackReport = {
+    bundle,
+    files: [...contents].map(([file, data]) => ({ path: file, size: data.length })),
+    totalSize: 0,
+    maxSize: parseSize(config.maxSize),
+    problems: [],
+    warnings: [],
+  };
+  report.totalSize = report.files.reduce((total, file) => total + file.size, 0);
+
+  if (entries.length !== contents.size) {
+    report.problems.push(`The bundle contains files outside of the "${PACKAGE_DIR}" directory`);
+  }
+
+  const manifestData = contents.get('package.json');
+  if (manifestData === undefined) {
+    report.problems.push('The bundle does not contain a package.json');
+  } else {
+    checkManifestTargets(JSON.parse(manifestData.toString('utf8')), new Set(contents.keys()), report.problems);
+  }
+
+  // A file that is allowed is shipped whatever it looks like, eg: a shared
+  // configuration named like a test file
+  const allowed = config.allow.map((pattern) => globToRegExp(path.posix.normalize(pattern).replace(/^\.\//, '')));
+  for (const [file, data] of contents) {
+    const unwanted = UNWANTED_FILES.find(([pattern]) => pattern.test(file));
+    if (allowed.some((pattern) => pattern.test(file))) {
+      continue;
+    } else if (unwanted !== undefined) {
+      report.problems.push(`"${file}" is a ${unwanted[1]} that should not be shipped`);
+    } else if (file.endsWith('.map') && !hasSources(file, data, contents)) {
+      report.warnings.push(`"${file}" is a source map that is shipped without its sources`);
+    }
+  }
+
+  if (report.maxSize !== 0 && report.totalSize > report.maxSize) {
+    report.problems.push(
+      `The unpacked size of ${formatSize(report.totalSize)} exceeds the budget of ${formatSize(report.maxSize)}`
+    );
+  }
+  return report;
+}
+
+/**
+ * Display the report of inspecting a packed bundle
+ *
+ * @param report - the report to display
+ * @returns true if no problems were found
+ */
+export function printPackReport(report: PackReport): boolean {
+  const width = Math.max(0, ...report.files.map((file) => formatSize(file.size).length));
+  const budget = report.maxSize === 0 ? '' : ` of a budget of ${formatSize(report.maxSize)}`;
+  const lines = [
+    `Contents of ${report.bundle}:`,
+    ...report.files.map((file) => `  ${formatSize(file.size).padStart(width)}  ${file.path}`),
+    `${report.files.length} files with an unpacked size of ${formatSize(report.totalSize)}${budget}`,
+  ];
+  // eslint-disable-next-line no-console
+  console.log(lines.join('\n'));
+
+  for (const warning of report.warnings) {
+    console.error(`${chalk.yellow('Warning')}: ${warning}`);
+  }
+  for (const problem of report.problems) {
+    console.error(`Error: ${problem}`);
+  }
+  return report.problems.length === 0;
+}
+
+/**
+ * Parse a size that is either in bytes or has a unit, eg: `500kB`
+ *
+ * @param size - the size to parse
+ * @returns the size in bytes
+ */
+export function parseSize(size: number | string): number {
+  if (typeof size === 'number') {
+    return size;
+  }
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([a-z]*)\s*$/i.exec(size);
+  const unit = SIZE_UNITS[(match?.[2] || 'b').toLowerCase()];
+  if (match === null || unit === undefined) {
+    throw new Error(`Invalid size "${size}"`);
+  }
+  return Math.round(parseFloat(match[1]) * unit);
+}
+
+/**
+ * Format a size in bytes for display in the same way as npm
+ *
+ * @param size - the size in bytes
+ * @returns the formatted size
+ */
+export function formatSize(size: number): string {
+  if (size < 1000) {
+    return `${size} B`;
+  }
+  const [unit, scale] = size < 1000 ** 2 ? ['kB', 1000] : size < 1000 ** 3 ? ['MB', 1000 ** 2] : ['GB', 1000 ** 3];
+  return `${(size / scale).toFixed(1)} ${unit}`;
+}
+
+/**
+ * Make sure each of the files referred to by the packed `package.json`, that
+ * is its `main`, `types`, `bin` and `exports` targets, is in the bundle.
+ *
+ * @param manifest - the packed `package.json`
+ * @param files - the files in the bundle
+ * @param problems - the list to add any problems found to
+ */
+function checkManifestTargets(manifest: Record<string, any>, files: Set<string>, problems: string[]): void {
+  const missing = (field: string, target: string) =>
+    problems.push(`The ${field} target "${target}" in package.json is not in the bundle`);
+
+  // Node resolves the main entry point in the same way as a require()
+  if (typeof manifest.main === 'string') {
+    const main = normaliseTarget(manifest.main);
+    const candidates = ['', '.js', '.json', '.node', '/index.js', '/index.json', '/index.node'];
+    if (!candidates.some((extension) => files.has(path.posix.normalize(`${main}${extension}`)))) {
+      missing('main', manifest.main);
+    }
+  }
+
+  for (const field of ['types', 'typings']) {
+    if (typeof manifest[field] === 'string' && !files.has(normaliseTarget(manifest[field]))) {
+      missing(field, manifest[field]);
+    }
+  }
+
+  const bin: Record<string, unknown> =
+    typeof manifest.bin === 'string' ? { [manifest.name]: manifest.bin } : manifest.bin;
+  for (const target of Object.values(bin ?? {})) {
+    if (typeof target === 'string' && !files.has(normaliseTarget(target))) {
+      missing('bin', target);
+    }
+  }
+
+  for (const target of collectExportTargets(manifest.exports)) {
+    const normalised = normaliseTarget(target);
+    let found: boolean;
+    if (normalised.includes('*')) {
+      // A subpath pattern must match at least one file
+      const pattern = new RegExp(`^${normalised.split('*').map(escapeRegExp).join('.+')}$`);
+      found = [...files].some((file) => pattern.test(file));
+    } else if (normalised.endsWith('/')) {
+      // A folder export must contain at least one file
+      found = [...files].some((file) => file.startsWith(normalised));
+    } else {
+      found = files.has(normalised);
+    }
+    if (!found) {
+      missing('exports', target);
+    }
+  }
+}
+
+/**
+ * Collect the targets of the `exports` field, which may be a string, an array
+ * of fallbacks or an object of subpaths or conditions nested to any depth
+ *
+ * @param exports - the value of the `exports` field
+ * @returns the targets
+ */
+function collectExportTargets(exports: unknown): string[] {
+  if (typeof exports === 'string') {
+    return [exports];
+  }
+  if (Array.isArray(exports)) {
+    return exports.flatMap(collectExportTargets);
+  }
+  if (exports !== null && typeof exports === 'object') {
+    return Object.values(exports as Record<string, unknown>).flatMap(collectExportTargets);
+  }
+  return [];
+}
+
+/**
+ * Make sure a source map either contains its sources or that they are in the
+ * bundle
+ *
+ * @param file - the path of the source map
+ * @param data - the contents of the source map
+ * @param contents - the files in the bundle
+ * @returns true if the sources are available
+ */
+function hasSources(file: string, data: Buffer, contents: Map<string, Buffer>): boolean {
+  let map: Record<string, any>;
+  try {
+    map = JSON.parse(data.toString('utf8'));
+  } catch {
+    // Not a source map that can be checked
+    return true;
+  }
+
+  const sources: string[] = Array.isArray(map.sources) ? map.sources : [];
+  const sourcesContent: unknown[] = Array.isArray(map.sourcesContent) ? map.sourcesContent : [];
+  return sources.every(
+    (source, index) =>
+      typeof sourcesContent[index] === 'string' ||
+      contents.has(path.posix.join(path.posix.dirname(file), map.sourceRoot ?? '', source))
+  );
+}
+
+/**
+ * Normalise a target in package.json to a path relative to the package
+ *
+ * @param target - the target
+ * @returns the normalised path
+ */
+function normaliseTarget(target: string): string {
+  const normalised = path.posix.normalize(target);
+  return normalised.startsWith('./') ? normalised.slice(2) : normalised;
+}
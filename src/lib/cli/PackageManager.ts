@@ -0,0 +1,66 @@
+/**
+ * Detection of the package manager used by a project, either from the
+ * `packageManager` field of its `package.json`, as used by corepack, or from
+ * the lockfile that it has.
+ */
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+import { isExistingFile } from './SubCommandHelpers';
+
+// The package managers that are supported, where `yarn` is yarn classic (v1)
+// and `yarn-berry` is yarn v2 onwards
+export const PACKAGE_MANAGERS = ['npm', 'yarn', 'yarn-berry', 'pnpm'] as const;
+export type PackageManager = typeof PACKAGE_MANAGERS[number];
+
+// The lockfiles that identify each package manager, in the order checked
+const LOCKFILES: [string, PackageManager][] = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['package-lock.json', 'npm'],
+  ['npm-shrinkwrap.json', 'npm'],
+  ['yarn.lock', 'yarn'],
+];
+
+/**
+ * Detect the package manager used by a project, which defaults to yarn classic
+ * if it cannot be determined
+ *
+ * @param dir - the directory of the project
+ * @returns the package manager
+ */
+export async function detectPackageManager(dir = '.'): Promise<PackageManager> {
+  const manifestFile = path.join(dir, 'package.json');
+  if (await isExistingFile(manifestFile)) {
+    const manifest = JSON.parse(await readFile(manifestFile, 'utf8'));
+    const packageManager = parsePackageManager(manifest.packageManager);
+    if (packageManager !== undefined) {
+      return packageManager;
+    }
+  }
+
+  for (const [lockfile, packageManager] of LOCKFILES) {
+    const file = path.join(dir, lockfile);
+    if (await isExistingFile(file)) {
+      // The lockfile of yarn berry is YAML and has metadata that yarn classic's
+      // does not
+      return packageManager === 'yarn' && (await readFile(file, 'utf8')).includes('\n__metadata:')
+        ? 'yarn-berry'
+        : packageManager;
+    }
+  }
+  return 'yarn';
+}
+
+/**
+ * Parse the `packageManager` field of a `package.json`, eg: `pnpm@8.6.0`
+ *
+ * @param value - the value of the field
+ * @returns the package manager or undefined if it is not one that is supported
+ */
+function parsePackageManager(value: unknown): PackageManager | undefined {
+  const match = typeof value === 'string' ? /^(npm|yarn|pnpm)@(\d+)/.exec(value) : null;
+  if (match === null) {
+    return undefined;
+  }
+  return match[1] === 'yarn' && parseInt(match[2], 10) >= 2 ? 'yarn-berry' : (match[1] as PackageManager);
+}
@@ -0,0 +1,86 @@
+import { getBinTargets, transformManifest } from './PackageManifest';
+import { DistConfig } from './ProjectConfig';
+
+describe('PackageManifest', () => {
+  const config: DistConfig = {
+    stripFields: [],
+    keepFields: [],
+    scripts: [],
+    scriptExtensions: [],
+    scriptMode: '755',
+  };
+
+  describe('transformManifest', () => {
+    it('rewrites the paths within the output directory relative to it', () => {
+      const manifest = {
+        name: 'pkg',
+        version: '1.0.0',
+        main: './dist/index.js',
+        types: 'dist/index.d.ts',
+        bin: { pkg: './dist/cli/pkg.js' },
+        exports: {
+          '.': { import: './dist/index.mjs', require: './dist/index.js' },
+          './package.json': './package.json',
+        },
+        files: ['dist', 'dist/**/*.js', 'README.md'],
+      };
+      expect(transformManifest(manifest, 'dist', config)).toEqual({
+        name: 'pkg',
+        version: '1.0.0',
+        files: ['.', '**/*.js', 'README.md'],
+        main: './index.js',
+        types: 'index.d.ts',
+        exports: { '.': { import: './index.mjs', require: './index.js' }, './package.json': './package.json' },
+        bin: { pkg: './cli/pkg.js' },
+      });
+    });
+
+    it('accepts an output directory given with a trailing separator', () => {
+      expect(transformManifest({ name: 'pkg', version: '1.0.0', main: 'lib/index.js' }, './lib/', config)).toEqual({
+        name: 'pkg',
+        version: '1.0.0',
+        main: 'index.js',
+      });
+    });
+
+    it('writes the fields in order with dependencies sorted by name', () => {
+      const manifest = {
+        dependencies: { zod: '^3.0.0', chalk: '^4.0.0' },
+        zebra: true,
+        license: 'MIT',
+        version: '1.0.0',
+        alpha: true,
+        name: 'pkg',
+      };
+      const transformed = transformManifest(manifest, 'dist', config);
+      expect(Object.keys(transformed)).toEqual(['name', 'version', 'license', 'dependencies', 'alpha', 'zebra']);
+      expect(Object.keys(transformed.dependencies)).toEqual(['chalk', 'zod']);
+    });
+
+    it('strips fields, or keeps only those listed, but always keeps the name and version', () => {
+      const manifest = {
+        name: 'pkg',
+        version: '1.0.0',
+        scripts: { test: 'jest' },
+        devDependencies: {},
+        license: 'MIT',
+      };
+      expect(transformManifest(manifest, 'dist', { ...config, stripFields: ['scripts', 'devDependencies'] })).toEqual({
+        name: 'pkg',
+        version: '1.0.0',
+        license: 'MIT',
+      });
+      expect(
+        transformManifest(manifest, 'dist', { ...config, keepFields: ['license'], stripFields: ['name'] })
+      ).toEqual({ name: 'pkg', version: '1.0.0', license: 'MIT' });
+    });
+  });
+
+  describe('getBinTargets', () => {
+    it('gets the targets of a single command or of several', () => {
+      expect(getBinTargets({ bin: './cli.js' })).toEqual(['./cli.js']);
+      expect(getBinTargets({ bin: { a: './a.js', b: './b.js', c: 3 } })).toEqual(['./a.js', './b.js']);
+      expect(getBinTargets({})).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * The transformation of a project's `package.json` into the manifest of its
+ * distribution, where the paths it refers to are relative to the output
+ * directory rather than the project.
+ */
+import path from 'path';
+
+import { DistConfig } from './ProjectConfig';
+
+// The fields that refer to files of the package
+const PATH_FIELDS = ['main', 'types', 'typings', 'exports', 'bin', 'files'];
+
+// The fields that are always kept as the package cannot be packed without them
+const REQUIRED_FIELDS = ['name', 'version'];
+
+// The order the fields of the manifest are written in, with any other fields
+// following in alphabetical order
+const FIELD_ORDER = [
+  'name',
+  'version',
+  'private',
+  'description',
+  'keywords',
+  'homepage',
+  'bugs',
+  'repository',
+  'funding',
+  'license',
+  'author',
+  'contributors',
+  'type',
+  'files',
+  'main',
+  'types',
+  'typings',
+  'exports',
+  'bin',
+  'man',
+  'directories',
+  'workspaces',
+  'engines',
+  'os',
+  'cpu',
+  'publishConfig',
+  'scripts',
+  'dependencies',
+  'peerDependencies',
+  'peerDependenciesMeta',
+  'optionalDependencies',
+  'bundledDependencies',
+  'devDependencies',
+];
+
+// The fields that map package names to ranges, which are written sorted by name
+const DEPENDENCY_FIELDS = ['dependencies', 'peerDependencies', 'optionalDependencies', 'devDependencies'];
+
+/**
+ * Transform the manifest of a project into the manifest of its distribution
+ *
+ * @param manifest - the manifest of the project
+ * @param outDir - the output directory of the distribution, relative to the
+ * project
+ * @param config - the rules for the fields that are kept
+ * @returns the manifest of the distribution
+ */
+export function transformManifest(
+  manifest: Record<string, any>,
+  outDir: string,
+  config: DistConfig
+): Record<string, any> {
+  const { keepFields, stripFields } = config;
+  const isKept = (field: string) =>
+    REQUIRED_FIELDS.includes(field) ||
+    ((keepFields.length === 0 || keepFields.includes(field)) && !stripFields.includes(field));
+
+  const transformed: Record<string, any> = {};
+  for (const field of sortFields(Object.keys(manifest)).filter(isKept)) {
+    let value = manifest[field];
+    if (PATH_FIELDS.includes(field)) {
+      value = rewritePaths(value, outDir);
+    } else if (DEPENDENCY_FIELDS.includes(field) && value !== null && typeof value === 'object') {
+      value = Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)));
+    }
+    transformed[field] = value;
+  }
+  return transformed;
+}
+
+/**
+ * Get the targets of the `bin` field of a manifest, which is either the path
+ * of the single command or an object of commands and their paths
+ *
+ * @param manifest - the manifest
+ * @returns the targets
+ */
+export function getBinTargets(manifest: Record<string, any>): string[] {
+  const bin: unknown = manifest.bin;
+  if (typeof bin === 'string') {
+    return [bin];
+  }
+  if (bin !== null && typeof bin === 'object') {
+    return Object.values(bin as Record<string, unknown>).filter(
+      (target): target is string => typeof target === 'string'
+    );
+  }
+  return [];
+}
+
+/**
+ * Rewrite the paths in the value of a field relative to the output directory,
+ * where the value may be a path, eg: `main`, or a list or object of paths
+ * nested to any depth, eg: `exports`
+ *
+ * @param value - the value of the field
+ * @param outDir - the output directory
+ * @returns the rewritten value
+ */
+function rewritePaths(value: unknown, outDir: string): unknown {
+  if (typeof value === 'string') {
+    return rewritePath(value, outDir);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => rewritePaths(item, outDir));
+  }
+  if (value !== null && typeof value === 'object') {
+    // The keys are subpaths or conditions of exports and names of binaries, so
+    // only the values are paths
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, rewritePaths(item, outDir)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Rewrite a path relative to the output directory, where a path that is not
+ * within the output directory is left as it is as it already refers to a file
+ * copied into the distribution, eg: `README.md`
+ *
+ * @param target - the path, which may be a glob
+ * @param outDir - the output directory
+ * @returns the rewritten path
+ */
+function rewritePath(target: string, outDir: string): string {
+  const prefix = target.startsWith('./') ? './' : '';
+  const normalised = path.posix.normalize(target);
+  const dir = path.posix.normalize(outDir.split(path.sep).join('/')).replace(/\/+$/, '');
+  if (normalised === dir) {
+    return '.';
+  }
+  return normalised.startsWith(`${dir}/`) ? `${prefix}${normalised.slice(dir.length + 1)}` : target;
+}
+
+/**
+ * Sort the fields of a manifest into the order they are written in
+ *
+ * @param fields - the fields
+ * @returns the sorted fields
+ */
+function sortFields(fields: string[]): string[] {
+  const rank = (field: string) => {
+    const index = FIELD_ORDER.indexOf(field);
+    return index < 0 ? FIELD_ORDER.length : index;
+  };
+  return [...fields].sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+}
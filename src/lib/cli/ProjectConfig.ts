@@ -0,0 +1,360 @@
+/**
+ * The project configuration used by `jetsam` sub-commands. This is read from
+ * the `jetsam` section of the project's `package.json` with any settings that
+ * are not provided taking their default values.
+ */
+import { readFile } from 'fs/promises';
+
+import { escapeRegExp } from './SubCommandHelpers';
+import { VERSION_PATTERN } from './Version';
+
+// The placeholder for the version number in branch name templates
+const VERSION_PLACEHOLDER = '{version}';
+
+/**
+ * The settings that describe the branching model used when releasing
+ */
+export interface ReleaseConfig {
+  // The template for the name of release branches where `{version}` is
+  // replaced with the version number
+  releaseBranch: string;
+
+  // The template for the name of hotfix branches made from earlier releases
+  hotfixBranch: string;
+
+  // The branch that releases are merged into
+  targetBranch: string;
+
+  // The name of the git remote that branches and tags are pushed to
+  remote: string;
+
+  // The prefix added to the version number to form the release tag
+  tagPrefix: string;
+
+  // The directory that release bundles are written to
+  bundleDir: string;
+
+  // The identifier used for pre-release versions, eg: `rc` for `2.0.0-rc.1`
+  preid: string;
+
+  // The npm dist-tags that release and pre-release bundles are published with
+  distTag: string;
+  prereleaseDistTag: string;
+
+  // Whether release tags are signed rather than only annotated
+  signTags: boolean;
+}
+
+/**
+ * The settings used when publishing release bundles to an npm registry
+ */
+export interface PublishConfig {
+  // Whether `jetsam release` publishes the release bundle once it is built
+  onRelease: boolean;
+
+  // The URL of the registry to publish to, if not that configured for npm
+  registry: string;
+
+  // The access level of a scoped package, `public` or `restricted`, if not the
+  // npm default
+  access: string;
+}
+
+/**
+ * The settings used when verifying the contents of a packed bundle
+ */
+export interface PackConfig {
+  // The largest the unpacked contents of a bundle may be, either in bytes or
+  // with a unit, eg: `500kB`, where 0 means there is no limit
+  maxSize: number | string;
+
+  // The glob patterns of files that are shipped even though they look like
+  // they should not be, eg: `exports/.eslintrc.spec.js`
+  allow: string[];
+}
+
+/**
+ * The settings used when releasing the packages of a yarn workspaces monorepo
+ */
+export interface WorkspacesConfig {
+  // Either `fixed`, where every package released has the version of the
+  // release, or `independent`, where each package is versioned separately
+  versioning: 'fixed' | 'independent';
+
+  // The template for the tag of each package released where `{name}` and
+  // `{version}` are replaced with the name and version of the package
+  tag: string;
+}
+
+/**
+ * The settings used when auditing the dependencies of a project
+ */
+export interface AuditConfig {
+  // The file listing the advisories that have been accepted, relative to the
+  // project directory
+  ignoreFile: string;
+
+  // The snapshot of advisories used by an offline audit
+  database: string;
+}
+
+/**
+ * The settings used when building the distribution of a package
+ */
+export interface DistConfig {
+  // The fields of `package.json` left out of the distribution, eg:
+  // `devDependencies` and `scripts`
+  stripFields: string[];
+
+  // If not empty, the only fields of `package.json` kept in the distribution,
+  // along with `name` and `version`
+  keepFields: string[];
+
+  // The glob patterns of the scripts copied from the `bin` source directory,
+  // eg: `**/*.sh`, and the extensions removed from their names
+  scripts: string[];
+  scriptExtensions: string[];
+
+  // The mode that scripts and the targets of `bin` entries are given, in octal
+  scriptMode: string;
+}
+
+/**
+ * The configuration of a project
+ */
+export interface ProjectConfig {
+  release: ReleaseConfig;
+  publish: PublishConfig;
+  pack: PackConfig;
+  workspaces: WorkspacesConfig;
+  audit: AuditConfig;
+  dist: DistConfig;
+}
+
+// The configuration used for any settings not provided by the project
+const DEFAULT_CONFIG: ProjectConfig = {
+  release: {
+    releaseBranch: `release/v${VERSION_PLACEHOLDER}`,
+    hotfixBranch: `hotfix/v${VERSION_PLACEHOLDER}`,
+    targetBranch: 'master',
+    remote: 'origin',
+    tagPrefix: 'v',
+    bundleDir: 'releases',
+    preid: 'rc',
+    distTag: 'latest',
+    prereleaseDistTag: 'next',
+    signTags: false,
+  },
+  publish: {
+    onRelease: false,
+    registry: '',
+    access: '',
+  },
+  pack: {
+    maxSize: 0,
+    allow: [],
+  },
+  workspaces: {
+    versioning: 'fixed',
+    tag: `{name}@${VERSION_PLACEHOLDER}`,
+  },
+  audit: {
+    ignoreFile: 'audit-ignore.json',
+    database: 'audit-advisories.json',
+  },
+  dist: {
+    stripFields: [],
+    keepFields: [],
+    scripts: ['**/*.sh'],
+    scriptExtensions: ['.sh'],
+    scriptMode: '755',
+  },
+};
+
+/**
+ * Load the project configuration from the `package.json` in the current
+ * directory
+ *
+ * @param manifestFile - the path to the package manifest
+ * @returns the project configuration
+ */
+export async function loadProjectConfig(manifestFile = 'package.json'): Promise<ProjectConfig> {
+  let manifest: Record<string, any>;
+  try {
+    manifest = JSON.parse(await readFile(manifestFile, 'utf8'));
+  } catch (err) {
+    throw new Error(`Failed to read project configuration from ${manifestFile}: ${err}`);
+  }
+
+  const settings: Record<string, any> = manifest.jetsam ?? {};
+  const config: ProjectConfig = {
+    release: { ...DEFAULT_CONFIG.release, ...(settings.release ?? {}) },
+    publish: { ...DEFAULT_CONFIG.publish, ...(settings.publish ?? {}) },
+    pack: { ...DEFAULT_CONFIG.pack, ...(settings.pack ?? {}) },
+    workspaces: { ...DEFAULT_CONFIG.workspaces, ...(settings.workspaces ?? {}) },
+    audit: { ...DEFAULT_CONFIG.audit, ...(settings.audit ?? {}) },
+    dist: { ...DEFAULT_CONFIG.dist, ...(settings.dist ?? {}) },
+  };
+
+  for (const setting of ['releaseBranch', 'hotfixBranch'] as const) {
+    if (!config.release[setting].includes(VERSION_PLACEHOLDER)) {
+      throw new Error(`The ${setting} setting in ${manifestFile} must contain "${VERSION_PLACEHOLDER}"`);
+    }
+  }
+  if (!['fixed', 'independent'].includes(config.workspaces.versioning)) {
+    throw new Error(`The workspaces versioning setting in ${manifestFile} must be either "fixed" or "independent"`);
+  }
+  if (!config.workspaces.tag.includes('{name}') || !config.workspaces.tag.includes(VERSION_PLACEHOLDER)) {
+    throw new Error(`The workspaces tag setting in ${manifestFile} must contain "{name}" and "${VERSION_PLACEHOLDER}"`);
+  }
+  if (!Array.isArray(config.pack.allow) || config.pack.allow.some((pattern) => typeof pattern !== 'string')) {
+    throw new Error(`The pack allow setting in ${manifestFile} must be a list of glob patterns`);
+  }
+  for (const setting of ['stripFields', 'keepFields', 'scripts', 'scriptExtensions'] as const) {
+    const values: unknown = config.dist[setting];
+    if (!Array.isArray(values) || values.some((value) => typeof value !== 'string')) {
+      throw new Error(`The dist ${setting} setting in ${manifestFile} must be a list of strings`);
+    }
+  }
+  if (!/^[0-7]{3,4}$/.test(String(config.dist.scriptMode))) {
+    throw new Error(`The dist scriptMode setting in ${manifestFile} must be an octal mode, eg: "755"`);
+  }
+  if (config.dist.stripFields.length > 0 && config.dist.keepFields.length > 0) {
+    throw new Error(`Only one of the dist stripFields and keepFields settings in ${manifestFile} can be given`);
+  }
+  return config;
+}
+
+/**
+ * Get the name of the release branch for a version
+ *
+ * @param config - the release configuration
+ * @param versionNum - the version number
+ * @returns the release branch name
+ */
+export function getReleaseBranch(config: ReleaseConfig, versionNum: string): string {
+  return fillTemplate(config.releaseBranch, versionNum);
+}
+
+/**
+ * Get the version number from the name of a release branch
+ *
+ * @param config - the release configuration
+ * @param branch - the name of the branch
+ * @returns the version number or undefined if it is not a release branch
+ */
+export function parseReleaseBranch(config: ReleaseConfig, branch: string): string | undefined {
+  return matchTemplate(config.releaseBranch, branch);
+}
+
+/**
+ * Get the name of the hotfix branch for a version
+ *
+ * @param config - the release configuration
+ * @param versionNum - the version number
+ * @returns the hotfix branch name
+ */
+export function getHotfixBranch(config: ReleaseConfig, versionNum: string): string {
+  return fillTemplate(config.hotfixBranch, versionNum);
+}
+
+/**
+ * Get the version number from the name of a hotfix branch
+ *
+ * @param config - the release configuration
+ * @param branch - the name of the branch
+ * @returns the version number or undefined if it is not a hotfix branch
+ */
+export function parseHotfixBranch(config: ReleaseConfig, branch: string): string | undefined {
+  return matchTemplate(config.hotfixBranch, branch);
+}
+
+/**
+ * Get the release tag for a version
+ *
+ * @param config - the release configuration
+ * @param versionNum - the version number
+ * @returns the release tag
+ */
+export function getReleaseTag(config: ReleaseConfig, versionNum: string): string {
+  return `${config.tagPrefix}${versionNum}`;
+}
+
+/**
+ * Get the version number from a release tag
+ *
+ * @param config - the release configuration
+ * @param tag - the tag
+ * @returns the version number or undefined if it is not a release tag
+ */
+export function parseReleaseTag(config: ReleaseConfig, tag: string): string | undefined {
+  return matchTemplate(`${config.tagPrefix}${VERSION_PLACEHOLDER}`, tag);
+}
+
+/**
+ * Get the tag for a version of a package in a monorepo
+ *
+ * @param config - the workspaces configuration
+ * @param name - the name of the package
+ * @param versionNum - the version number
+ * @returns the tag
+ */
+export function getWorkspaceTag(config: WorkspacesConfig, name: string, versionNum: string): string {
+  return fillTemplate(config.tag.replace('{name}', name), versionNum);
+}
+
+/**
+ * Get the version number from the tag of a package in a monorepo
+ *
+ * @param config - the workspaces configuration
+ * @param name - the name of the package
+ * @param tag - the tag
+ * @returns the version number or undefined if it is not a tag of the package
+ */
+export function parseWorkspaceTag(config: WorkspacesConfig, name: string, tag: string): string | undefined {
+  return matchTemplate(config.tag.replace('{name}', name), tag);
+}
+
+/**
+ * Describe the naming convention of release branches for use in messages
+ *
+ * @param config - the release configuration
+ * @returns the naming convention, eg: `release/vX.Y.Z`
+ */
+export function describeReleaseBranch(config: ReleaseConfig): string {
+  return getReleaseBranch(config, 'X.Y.Z');
+}
+
+/**
+ * Describe the naming convention of hotfix branches for use in messages
+ *
+ * @param config - the release configuration
+ * @returns the naming convention, eg: `hotfix/vX.Y.Z`
+ */
+export function describeHotfixBranch(config: ReleaseConfig): string {
+  return getHotfixBranch(config, 'X.Y.Z');
+}
+
+/**
+ * Substitute a version number into a name template
+ *
+ * @param template - the template containing the version placeholder
+ * @param versionNum - the version number
+ * @returns the name
+ */
+function fillTemplate(template: string, versionNum: string): string {
+  return template.replace(VERSION_PLACEHOLDER, versionNum);
+}
+
+/**
+ * Match a name against a template to extract the version number
+ *
+ * @param template - the template containing the version placeholder
+ * @param name - the name to match
+ * @returns the version number or undefined if the name does not match
+ */
+function matchTemplate(template: string, name: string): string | undefined {
+  const [prefix, suffix] = template.split(VERSION_PLACEHOLDER).map(escapeRegExp);
+  const match = new RegExp(`^${prefix}(${VERSION_PATTERN})${suffix}$`).exec(name);
+  return match === null ? undefined : match[1];
+}
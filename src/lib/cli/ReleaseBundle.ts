@@ -0,0 +1,166 @@
+/**
+ * Support for the bundles built by `jetsam release` and the metadata recorded
+ * alongside each of them.
+ */
+import chalk from 'chalk';
+import { readdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+
+import { ReleaseConfig } from './ProjectConfig';
+import { isExistingFile, isExistingPath } from './SubCommandHelpers';
+
+/**
+ * The metadata recorded for a release bundle
+ */
+export interface BundleMetadata {
+  // The name and version of the package in the bundle
+  name: string;
+  version: string;
+
+  // The release tag the bundle was built from
+  tag: string;
+
+  // True if the version is a pre-release
+  prerelease: boolean;
+
+  // The npm dist-tag the bundle is to be published with
+  distTag: string;
+
+  // The bundle file, relative to the metadata file
+  bundle: string;
+
+  // When the bundle was built
+  created: string;
+}
+
+/**
+ * Get the path of the bundle for a release
+ *
+ * @param config - the release configuration
+ * @param packageName - the name of the package
+ * @param tag - the release tag
+ * @returns the path to the bundle
+ */
+export function getBundlePath(config: ReleaseConfig, packageName: string, tag: string): string {
+  return path.join(config.bundleDir, `${packageName}-${tag}.tgz`);
+}
+
+/**
+ * Get the path of the bundle for a package released from a monorepo, which is
+ * named in the same way as by `npm pack`
+ *
+ * @param config - the release configuration
+ * @param packageName - the name of the package
+ * @param versionNum - the version of the package
+ * @returns the path to the bundle
+ */
+export function getWorkspaceBundlePath(config: ReleaseConfig, packageName: string, versionNum: string): string {
+  return path.join(config.bundleDir, `${packageName.replace(/^@/, '').replace('/', '-')}-${versionNum}.tgz`);
+}
+
+/**
+ * Get the path of the metadata file for a release bundle
+ *
+ * @param bundle - the path to the bundle
+ * @returns the path to the metadata file
+ */
+export function getBundleMetadataPath(bundle: string): string {
+  return bundle.replace(/\.tgz$/, '.json');
+}
+
+/**
+ * Get the path of the release notes written alongside a release bundle
+ *
+ * @param bundle - the path to the bundle
+ * @returns the path to the release notes
+ */
+export function getReleaseNotesPath(bundle: string): string {
+  return bundle.replace(/\.tgz$/, '.md');
+}
+
+/**
+ * Get the npm dist-tag that a version is to be published with
+ *
+ * @param config - the release configuration
+ * @param prerelease - true if the version is a pre-release
+ * @returns the dist-tag
+ */
+export function getDistTag(config: ReleaseConfig, prerelease: boolean): string {
+  return prerelease ? config.prereleaseDistTag : config.distTag;
+}
+
+/**
+ * Write the metadata for a release bundle alongside it
+ *
+ * @param bundle - the path to the bundle
+ * @param metadata - the metadata, excluding the bundle and creation time
+ * @returns a promise resolved when complete
+ */
+export async function writeBundleMetadata(
+  bundle: string,
+  metadata: Omit<BundleMetadata, 'bundle' | 'created'>
+): Promise<void> {
+  const contents: BundleMetadata = {
+    ...metadata,
+    bundle: path.basename(bundle),
+    created: new Date().toISOString(),
+  };
+  await writeFile(getBundleMetadataPath(bundle), JSON.stringify(contents, null, 2) + '\n', 'utf8');
+}
+
+/**
+ * Read the metadata for a release bundle
+ *
+ * @param bundle - the path to the bundle
+ * @returns the metadata or undefined if the bundle has none
+ */
+export async function readBundleMetadata(bundle: string): Promise<BundleMetadata | undefined> {
+  const file = getBundleMetadataPath(bundle);
+  if (!(await isExistingFile(file))) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(await readFile(file, 'utf8'));
+  } catch (err) {
+    throw new Error(`Failed to read bundle metadata from ${file}: ${err}`);
+  }
+}
+
+/**
+ * Find the release bundle of a package that was built most recently, going by
+ * the metadata recorded for the bundles in the bundle directory. Bundles whose
+ * metadata is missing or cannot be read are skipped with a warning.
+ *
+ * @param config - the release configuration
+ * @param packageName - the name of the package
+ * @returns the path to the bundle or undefined if none have been built
+ */
+export async function findLatestBundle(config: ReleaseConfig, packageName: string): Promise<string | undefined> {
+  if (!(await isExistingPath(config.bundleDir))?.isDirectory()) {
+    return undefined;
+  }
+
+  let latest: BundleMetadata | undefined;
+  for (const file of (await readdir(config.bundleDir)).filter((name) => name.endsWith('.tgz'))) {
+    const bundle = path.join(config.bundleDir, file);
+    let metadata: BundleMetadata | undefined;
+    try {
+      metadata = await readBundleMetadata(bundle);
+    } catch (err) {
+      console.error(
+        `${chalk.yellow('Warning')}: Skipping the release bundle ${bundle}: ${err instanceof Error ? err.message : err}`
+      );
+      continue;
+    }
+    if (metadata === undefined || typeof metadata.created !== 'string' || typeof metadata.bundle !== 'string') {
+      console.error(`${chalk.yellow('Warning')}: Skipping the release bundle ${bundle} as it has no valid metadata`);
+      continue;
+    }
+
+    if (metadata.name === packageName && (latest === undefined || metadata.created > latest.created)) {
+      latest = metadata;
+    }
+  }
+  return latest === undefined ? undefined : path.join(config.bundleDir, latest.bundle);
+}
@@ -0,0 +1,150 @@
+/**
+ * The checks that are made on a checkout before a version of a package is
+ * released. Each check reports why it failed to the console.
+ */
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+import { hasSection } from './Changelog';
+import { Git } from './Git';
+import { executeCmd } from './SubCommandHelpers';
+
+/**
+ * Get the name of the branch that is checked out
+ *
+ * @param git - the repository
+ * @returns the branch name or undefined if no branch is checked out
+ */
+export async function getCurrentBranch(git: Git): Promise<string | undefined> {
+  const branch = await git.getCurrentBranch();
+  if (branch === undefined) {
+    console.error('Error: No git branch is checked out');
+  }
+  return branch;
+}
+
+/**
+ * Make sure a release tag does not already exist
+ *
+ * @param git - the repository
+ * @param tag - the release tag
+ * @returns true if the tag does not exist
+ */
+export async function checkTagDoesNotExist(git: Git, tag: string): Promise<boolean> {
+  if (await git.tagExists(tag)) {
+    console.error(`Error: The release tag "${tag}" already exists`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Make sure the checkout is clean, that is, no versioned controlled files are
+ * currently modified.
+ *
+ * @param git - the repository
+ * @returns true if the checkout is clean
+ */
+export async function checkCleanCheckout(git: Git): Promise<boolean> {
+  const modifiedFiles = await git.getDirtyFiles();
+  if (modifiedFiles.length > 0) {
+    const fileList = modifiedFiles.map((file) => `  - ${file}`).join('\n');
+    console.error(`Error: The checkout is not clean with at least one modified file:\n${fileList}\n`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Make sure that the local branch has not diverged from the remote
+ *
+ * @param git - the repository
+ * @param remote - the name of the remote
+ * @param branch - the name of the branch
+ * @returns true if the branch is neither ahead nor behind
+ */
+export async function checkNotAheadOfRemote(git: Git, remote: string, branch: string): Promise<boolean> {
+  const { ahead, behind } = await git.getAheadBehind('HEAD', `${remote}/${branch}`);
+  if (ahead > 0) {
+    console.error(`Error: The local branch is ${ahead} commits ahead of ${remote}`);
+    return false;
+  }
+  if (behind > 0) {
+    console.error(`Error: The local branch is ${behind} commits behind ${remote}`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Make sure the version in package.json matches the version being released
+ *
+ * @param versionNum - the version being released
+ * @param dir - the directory of the package
+ * @returns the contents of package.json or undefined if the check failed
+ */
+export async function checkManifestVersion(versionNum: string, dir = '.'): Promise<Record<string, any> | undefined> {
+  const file = path.join(dir, 'package.json');
+  let manifest: Record<string, any>;
+  try {
+    manifest = JSON.parse(await readFile(file, 'utf8'));
+  } catch (err) {
+    console.error(`Error: Failed to read ${file}: ${err}`);
+    return undefined;
+  }
+
+  if (manifest.version !== versionNum) {
+    console.error(`Error: Version in ${file} does not match that being released: ${manifest.version} != ${versionNum}`);
+    return undefined;
+  }
+  return manifest;
+}
+
+/**
+ * Make sure the CHANGELOG contains an entry for the version being released
+ *
+ * @param versionNum - the version being released
+ * @param dir - the directory of the package
+ * @returns true if there is an entry for the version
+ */
+export async function checkChangelogEntry(versionNum: string, dir = '.'): Promise<boolean> {
+  const file = path.join(dir, 'CHANGELOG.md');
+  try {
+    const changelog = await readFile(file, 'utf8');
+    if (!hasSection(changelog, versionNum)) {
+      console.error(`Error: ${file} does not contain an entry for version ${versionNum}`);
+      return false;
+    }
+  } catch (err) {
+    console.error(`Error: Failed to read ${file}: ${err}`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Get the command that runs the pre-commit checks of a package
+ *
+ * @param dir - the directory of the package
+ * @returns the command and its arguments
+ */
+export function getPreCommitCommand(dir = '.'): string[] {
+  return ['yarn', '--cwd', dir, 'pre-commit'];
+}
+
+/**
+ * Make sure the pre-commit checks pass on the checkout
+ *
+ * @param branch - the branch that is checked out
+ * @param dir - the directory of the package
+ * @returns the exit status of the checks
+ */
+export async function runPreCommitChecks(branch: string, dir = '.'): Promise<number> {
+  const [cmd, ...args] = getPreCommitCommand(dir);
+  const exitStatus = await executeCmd(cmd, ...args);
+  if (exitStatus !== 0) {
+    const where = dir === '.' ? '' : ` in ${dir}`;
+    console.error(`Error: Pre-commit checks failed on ${branch}${where}`);
+  }
+  return exitStatus;
+}
@@ -0,0 +1,59 @@
+/**
+ * Support for the release notes of a version, taken from its section of the
+ * `CHANGELOG.md`, which are used as the message of the release tag and written
+ * alongside the release bundle.
+ */
+import { readFile, writeFile } from 'fs/promises';
+import mkdirp from 'mkdirp';
+import path from 'path';
+
+import { getSection } from './Changelog';
+import { Git } from './Git';
+import { isExistingFile } from './SubCommandHelpers';
+
+/**
+ * Read the release notes for a version from the CHANGELOG of a package
+ *
+ * @param versionNum - the version number, without any tag prefix
+ * @param dir - the directory of the package
+ * @returns the release notes or undefined if the CHANGELOG has none
+ */
+export async function readReleaseNotes(versionNum: string, dir = '.'): Promise<string | undefined> {
+  const file = path.join(dir, 'CHANGELOG.md');
+  if (!(await isExistingFile(file))) {
+    return undefined;
+  }
+
+  try {
+    return getSection(await readFile(file, 'utf8'), versionNum);
+  } catch (err) {
+    throw new Error(`Failed to read ${file}: ${err}`);
+  }
+}
+
+/**
+ * Write release notes to a file so they can be used by a hosting platform
+ *
+ * @param file - the file to write
+ * @param notes - the release notes
+ * @returns a promise resolved when complete
+ */
+export async function writeReleaseNotes(file: string, notes: string): Promise<void> {
+  await mkdirp(path.dirname(file));
+  await writeFile(file, notes, 'utf8');
+}
+
+/**
+ * Create an annotated release tag on the current commit, where the message is
+ * the tag followed by any release notes
+ *
+ * @param git - the repository
+ * @param tag - the tag to create
+ * @param notes - the release notes, if any
+ * @param sign - true if the tag is to be signed
+ * @returns a promise resolved when complete
+ */
+export async function createReleaseTag(git: Git, tag: string, notes: string | undefined, sign: boolean): Promise<void> {
+  const message = notes === undefined ? `Release ${tag}` : `${tag}\n\n${notes}`;
+  await git.createTag(tag, { message, sign });
+}
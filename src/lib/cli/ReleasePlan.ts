@@ -0,0 +1,156 @@
+/**
+ * The plan of what a release would do, which is produced by a dry-run in place
+ * of running the commands that change the repository. The checks made by each
+ * step are still performed.
+ */
+
+/**
+ * An action that a release step would perform
+ */
+export interface PlannedAction {
+  // A description of what the action does
+  description: string;
+
+  // The command that would be run, if the action runs one
+  command?: string[];
+}
+
+/**
+ * A release step along with what it would do
+ */
+export interface PlannedStep {
+  name: string;
+  description: string;
+  actions: PlannedAction[];
+
+  // Anything of note found by the step, eg: why it has nothing to do
+  notes: string[];
+}
+
+/**
+ * Records what each step of a release would do
+ */
+export class ReleasePlan {
+  // The steps in the order they would be performed
+  public readonly steps: PlannedStep[] = [];
+
+  // The values determined for the release, eg: its tag and next version
+  public readonly details: Record<string, string | string[]> = {};
+
+  /**
+   * Constructor
+   *
+   * @param version - the version tag being released
+   */
+  constructor(public readonly version: string) {}
+
+  /**
+   * Start recording what a step would do
+   *
+   * @param name - the name of the step
+   * @param description - a description of the step
+   */
+  public startStep(name: string, description: string): void {
+    this.steps.push({ name, description, actions: [], notes: [] });
+  }
+
+  /**
+   * Record an action that the current step would perform
+   *
+   * @param description - a description of what the action does
+   * @param command - the command that would be run, if any
+   */
+  public addAction(description: string, command?: string[]): void {
+    this.currentStep().actions.push(command === undefined ? { description } : { description, command });
+  }
+
+  /**
+   * Record something of note found by the current step
+   *
+   * @param note - the note
+   */
+  public addNote(note: string): void {
+    this.currentStep().notes.push(note);
+  }
+
+  /**
+   * Record a value determined for the release
+   *
+   * @param name - the name of the value
+   * @param value - the value
+   */
+  public setDetail(name: string, value: string | string[]): void {
+    this.details[name] = value;
+  }
+
+  /**
+   * Get the plan in the form written as JSON
+   *
+   * @returns the plan
+   */
+  public toJSON(): Record<string, unknown> {
+    return { version: this.version, details: this.details, steps: this.steps };
+  }
+
+  /**
+   * Format the plan as text, listing the commands that would be run by each
+   * step in the form they could be entered in a shell
+   *
+   * @returns the formatted plan
+   */
+  public format(): string {
+    const lines = [`Release plan for ${this.version}:`];
+    for (const [name, value] of Object.entries(this.details)) {
+      lines.push(`  ${name}: ${Array.isArray(value) ? value.join(', ') : value}`);
+    }
+
+    this.steps.forEach((step, index) => {
+      lines.push('', `${index + 1}. ${step.name}: ${step.description}`);
+      for (const action of step.actions) {
+        lines.push(
+          action.command === undefined ? `   - ${action.description}` : `   $ ${quoteCommand(action.command)}`
+        );
+      }
+      for (const note of step.notes) {
+        lines.push(`   Note: ${note.replace(/\n/g, '\n   ')}`);
+      }
+      if (step.actions.length === 0 && step.notes.length === 0) {
+        lines.push('   - Nothing to do');
+      }
+    });
+    return lines.join('\n');
+  }
+
+  /**
+   * Get the step being recorded
+   *
+   * @returns the step
+   */
+  private currentStep(): PlannedStep {
+    if (this.steps.length === 0) {
+      this.startStep('prepare', 'Prepare the release');
+    }
+    return this.steps[this.steps.length - 1];
+  }
+}
+
+/**
+ * Quote a command so that it can be entered in a shell, where any newlines in
+ * an argument are escaped
+ *
+ * @param command - the command and its arguments
+ * @returns the quoted command
+ */
+export function quoteCommand(command: string[]): string {
+  return command
+    .map((arg) => {
+      if (/^[\w@%+=:,./-]+$/.test(arg)) {
+        return arg;
+      }
+      if (arg.includes('\n')) {
+        return `$'${arg.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+      }
+      return `'${arg.replace(/'/g, "'\\''")}'`;
+    })
+    .join(' ');
+}
@@ -0,0 +1,167 @@
+/**
+ * Support for publishing release bundles to an npm registry. The bundle built
+ * by `jetsam release` is published as it is, rather than packing the package
+ * again, so what is published is exactly what was released.
+ */
+import path from 'path';
+
+import { PublishConfig } from './ProjectConfig';
+import { executeCmd, getResultFromCmd } from './SubCommandHelpers';
+
+/**
+ * Get the registry to publish to
+ *
+ * @param config - the publish configuration
+ * @param registry - the registry given on the command-line, if any
+ * @returns the URL of the registry or undefined to use that configured for npm
+ */
+export function getRegistry(config: PublishConfig, registry?: string): string | undefined {
+  return registry ?? (config.registry !== '' ? config.registry : undefined);
+}
+
+/**
+ * Describe a registry for use in messages
+ *
+ * @param registry - the URL of the registry or undefined for the npm default
+ * @returns the description
+ */
+export function describeRegistry(registry: string | undefined): string {
+  return registry ?? 'the npm registry';
+}
+
+/**
+ * Make sure a version of a package has not already been published
+ *
+ * @param name - the name of the package
+ * @param versionNum - the version of the package
+ * @param registry - the URL of the registry or undefined for the npm default
+ * @returns true if the version has not been published
+ */
+export async function checkNotPublished(
+  name: string,
+  versionNum: string,
+  registry: string | undefined
+): Promise<boolean> {
+  // npm reports errors in the JSON output so its logging is not required
+  const args = [
+    'view',
+    `${name}@${versionNum}`,
+    'version',
+    '--json',
+    '--loglevel',
+    'silent',
+    ...registryArgs(registry),
+  ];
+  const result = await getResultFromCmd('npm', ...args);
+  if (result === undefined) {
+    return false;
+  }
+
+  // Neither the package nor the version being published is reported as E404,
+  // while a version that exists is output as a JSON string
+  let output: unknown;
+  try {
+    output = result.output.trim() === '' ? undefined : JSON.parse(result.output);
+  } catch (err) {
+    console.error(`Error: Failed to parse the output of "npm view": ${err}`);
+    return false;
+  }
+
+  if (result.exitStatus === 0 && output !== undefined) {
+    console.error(
+      `Error: Version ${versionNum} of ${name} has already been published to ${describeRegistry(registry)}`
+    );
+    return false;
+  }
+  const error = getNpmError(output);
+  if (result.exitStatus !== 0 && error?.code !== 'E404') {
+    const where = describeRegistry(registry);
+    const reason = error?.summary ?? `npm exited with status ${result.exitStatus}`;
+    console.error(`Error: Failed to find out if ${name}@${versionNum} has been published to ${where}: ${reason}`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Get the command that publishes a release bundle
+ *
+ * @param bundle - the path to the bundle
+ * @param distTag - the npm dist-tag to publish it with
+ * @param config - the publish configuration
+ * @param registry - the URL of the registry or undefined for the npm default
+ * @param dryRun - true if npm is only to report what it would publish
+ * @returns the command and its arguments
+ */
+export function getPublishCommand(
+  bundle: string,
+  distTag: string,
+  config: PublishConfig,
+  registry: string | undefined,
+  dryRun = false
+): string[] {
+  // npm only treats the bundle as a file if it is given as a path
+  const command = ['npm', 'publish', path.resolve(bundle), '--tag', distTag, ...registryArgs(registry)];
+  if (config.access !== '') {
+    command.push('--access', config.access);
+  }
+  if (dryRun) {
+    command.push('--dry-run');
+  }
+  return command;
+}
+
+/**
+ * Publish a release bundle
+ *
+ * @param bundle - the path to the bundle
+ * @param distTag - the npm dist-tag to publish it with
+ * @param config - the publish configuration
+ * @param registry - the URL of the registry or undefined for the npm default
+ * @param dryRun - true if npm is only to report what it would publish
+ * @returns the exit status of `npm publish`
+ */
+export async function publishBundle(
+  bundle: string,
+  distTag: string,
+  config: PublishConfig,
+  registry: string | undefined,
+  dryRun = false
+): Promise<number> {
+  const [cmd, ...args] = getPublishCommand(bundle, distTag, config, registry, dryRun);
+  const exitStatus = await executeCmd(cmd, ...args);
+  if (exitStatus !== 0) {
+    console.error(`Error: Failed to publish ${bundle} to ${describeRegistry(registry)}`);
+  }
+  return exitStatus;
+}
+
+/**
+ * Get the npm arguments that select a registry
+ *
+ * @param registry - the URL of the registry or undefined for the npm default
+ * @returns the arguments
+ */
+function registryArgs(registry: string | undefined): string[] {
+  return registry === undefined ? [] : ['--registry', registry];
+}
+
+/**
+ * Get the error reported in the JSON output of an npm command, if any
+ *
+ * @param output - the parsed output
+ * @returns the code and summary of the error, where given
+ */
+function getNpmError(output: unknown): { code?: string; summary?: string } | undefined {
+  const error: unknown =
+    output !== null && typeof output === 'object' ? (output as Record<string, unknown>).error : undefined;
+  if (error === null || typeof error !== 'object') {
+    return undefined;
+  }
+
+  const { code, summary } = error as Record<string, unknown>;
+  return {
+    code: typeof code === 'string' ? code : undefined,
+    summary: typeof summary === 'string' ? summary : undefined,
+  };
+}
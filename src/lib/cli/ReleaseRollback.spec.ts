@@ -0,0 +1,208 @@
+import { execFile } from 'child_process';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+
+import { Git } from './Git';
+import { loadProjectConfig, ReleaseConfig } from './ProjectConfig';
+import { planRollback, RollbackPlan } from './ReleaseRollback';
+import { ReleaseState } from './ReleaseState';
+import { isExistingFile } from './SubCommandHelpers';
+import { WorkspaceRelease } from './Workspaces';
+
+const execFileAsync = promisify(execFile);
+
+describe('planRollback', () => {
+  const cwd = process.cwd();
+  let root: string;
+  let config: ReleaseConfig;
+  let repo: Git;
+
+  // Run git in the checkout, or elsewhere, to set up what the release has done
+  const git = async (...args: string[]) => (await execFileAsync('git', args)).stdout.trim();
+
+  // Commit a change to a file in the checkout
+  const commitFile = async (file: string, contents: string, message: string) => {
+    await writeFile(file, contents);
+    await git('add', file);
+    await git('commit', '--quiet', '--message', message);
+  };
+
+  // Merge the release branch into master as the release does
+  const mergeRelease = async () => {
+    await git('checkout', '--quiet', 'master');
+    await git('merge', '--quiet', '--no-ff', '--no-edit', 'release/v1.0.0');
+  };
+
+  // Describe each action of a plan along with where it is performed
+  const describe = ({ actions }: RollbackPlan) =>
+    actions.map(({ description, remote }) => `${remote ? '[origin]' : '[local]'} ${description}`);
+
+  // Run each action of a plan, the local ones first as the release does
+  const rollback = async ({ actions }: RollbackPlan) => {
+    for (const remote of [false, true]) {
+      for (const action of actions.filter((a) => a.remote === remote)) {
+        await action.run();
+      }
+    }
+  };
+
+  // A checkout of master with the release branch for 1.0.0, both pushed
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(os.tmpdir(), 'jetsam-rollback-'));
+    process.chdir(root);
+    await git('init', '--quiet', '--bare', '--initial-branch=master', 'remote.git');
+    await git('init', '--quiet', '--initial-branch=master', 'work');
+    process.chdir('work');
+    for (const [name, value] of [
+      ['user.name', 'Jetsam'],
+      ['user.email', 'jetsam@example.com'],
+      ['commit.gpgSign', 'false'],
+      ['tag.gpgSign', 'false'],
+    ]) {
+      await git('config', name, value);
+    }
+    await git('remote', 'add', 'origin', path.join(root, 'remote.git'));
+    await commitFile('package.json', JSON.stringify({ name: 'pkg', version: '1.0.0' }), 'Initial commit');
+    await git('checkout', '--quiet', '-b', 'release/v1.0.0');
+    await commitFile('CHANGELOG.md', '# Changelog\n\n## 1.0.0\n', 'Add CHANGELOG');
+    await git('push', '--quiet', 'origin', 'master', 'release/v1.0.0');
+
+    config = (await loadProjectConfig()).release;
+    repo = new Git();
+  });
+
+  afterEach(async () => {
+    process.chdir(cwd);
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('has nothing to roll back before the release has changed anything', async () => {
+    expect(await planRollback(repo, config, '1.0.0', ['1.1.0'])).toEqual({ actions: [], notes: [] });
+  });
+
+  it.each(['master', 'release/v1.0.0'])(
+    'removes the merge when it is the only local commit on master, with %s checked out',
+    async (branch) => {
+      await mergeRelease();
+      await writeFile('notes.txt', 'Uncommitted work\n');
+      await git('checkout', '--quiet', branch);
+
+      const plan = await planRollback(repo, config, '1.0.0', ['1.1.0']);
+      expect(describe(plan)).toEqual([
+        '[local] Remove the local merge of release/v1.0.0 by resetting master to origin/master',
+      ]);
+      expect(plan.notes).toEqual([]);
+
+      await rollback(plan);
+      expect(await repo.getCommit('master')).toBe(await repo.getCommit('origin/master'));
+      expect(await repo.getCurrentBranch()).toBe(branch);
+      expect(await isExistingFile('notes.txt')).toBe(true);
+    }
+  );
+
+  it.each([
+    ['before', false],
+    ['after', true],
+  ])('leaves the merge alone when there is a local commit on master %s it', async (_, afterMerge) => {
+    if (afterMerge) {
+      await mergeRelease();
+    } else {
+      await git('checkout', '--quiet', 'master');
+    }
+    await commitFile('LICENSE', 'MIT license\n', 'Add LICENSE');
+    if (!afterMerge) {
+      await mergeRelease();
+    }
+    const head = await repo.getCommit('master');
+
+    const plan = await planRollback(repo, config, '1.0.0', ['1.1.0']);
+    expect(plan.actions).toEqual([]);
+    expect(plan.notes).toEqual([
+      'master has other local changes since origin/master so the merge of release/v1.0.0 must be removed manually',
+    ]);
+    expect(await repo.getCommit('master')).toBe(head);
+  });
+
+  it('leaves the merge alone when it is not the release that has been merged locally', async () => {
+    await git('checkout', '--quiet', '-b', 'feature', 'master');
+    await commitFile('LICENSE', 'MIT license\n', 'Add LICENSE');
+    await git('checkout', '--quiet', 'master');
+    await git('merge', '--quiet', '--no-ff', '--no-edit', 'feature');
+
+    expect(await planRollback(repo, config, '1.0.0', ['1.1.0'])).toEqual({ actions: [], notes: [] });
+  });
+
+  it('leaves a merge that has been pushed to be reverted manually', async () => {
+    await mergeRelease();
+    await git('push', '--quiet', 'origin', 'master');
+
+    const plan = await planRollback(repo, config, '1.0.0', ['1.1.0']);
+    expect(plan.actions).toEqual([]);
+    expect(plan.notes).toEqual([
+      'The merge of release/v1.0.0 has been pushed to origin/master and must be reverted manually if required',
+    ]);
+  });
+
+  it('removes the tags, bundles, next release branch and saved state created by the release', async () => {
+    // The release got as far as creating and pushing the next release branch
+    await mergeRelease();
+    await git('tag', 'v1.0.0');
+    await git('tag', 'a@1.0.0');
+    await git('push', '--quiet', 'origin', 'master', 'v1.0.0', 'a@1.0.0');
+    await mkdir('releases');
+    for (const file of ['pkg-v1.0.0.tgz', 'pkg-v1.0.0.json', 'pkg-v1.0.0.md', 'a-1.0.0.tgz']) {
+      await writeFile(path.join('releases', file), '');
+    }
+    await git('checkout', '--quiet', '-b', 'release/v1.1.0');
+    await commitFile('package.json', JSON.stringify({ name: 'pkg', version: '1.1.0' }), 'Bump version to 1.1.0');
+    await git('push', '--quiet', 'origin', 'release/v1.1.0');
+
+    // Whereas this branch was not created by the release
+    await git('branch', 'release/v2.0.0', 'master');
+    await git('checkout', '--quiet', 'release/v2.0.0');
+    await commitFile('LICENSE', 'MIT license\n', 'Add LICENSE');
+    await git('checkout', '--quiet', 'release/v1.1.0');
+
+    // Only the saved state knows of the workspace packages released
+    const workspace: WorkspaceRelease = {
+      name: 'a',
+      dir: 'packages/a',
+      previousVersionNum: '0.1.0',
+      versionNum: '1.0.0',
+      tag: 'a@1.0.0',
+      reason: 'changed',
+    };
+    const state = await ReleaseState.create(repo, 'v1.0.0', { versionNum: '1.0.0', workspaces: [workspace] }, []);
+    await state.save();
+
+    const plan = await planRollback(repo, config, '1.0.0', ['1.1.0', '2.0.0']);
+    expect(describe(plan)).toEqual([
+      '[local] Switch to branch release/v1.0.0',
+      '[local] Delete the local tag v1.0.0',
+      '[local] Delete the local tag a@1.0.0',
+      `[local] Delete the release bundle ${path.join('releases', 'pkg-v1.0.0.tgz')}`,
+      `[local] Delete the release notes ${path.join('releases', 'pkg-v1.0.0.md')}`,
+      `[local] Delete the release bundle ${path.join('releases', 'a-1.0.0.tgz')}`,
+      '[local] Delete the local branch release/v1.1.0',
+      '[local] Discard the saved state of the release in progress',
+      '[origin] Delete the tag v1.0.0 from origin',
+      '[origin] Delete the tag a@1.0.0 from origin',
+      '[origin] Delete the branch release/v1.1.0 from origin',
+    ]);
+    expect(plan.notes).toEqual([
+      'The merge of release/v1.0.0 has been pushed to origin/master and must be reverted manually if required',
+    ]);
+
+    await rollback(plan);
+    expect(await repo.getCurrentBranch()).toBe('release/v1.0.0');
+    expect(await repo.listTags('*')).toEqual([]);
+    expect(await repo.remoteTagExists('origin', 'v1.0.0')).toBe(false);
+    expect(await repo.branchExists('release/v1.1.0')).toBe(false);
+    expect(await repo.branchExists('release/v2.0.0')).toBe(true);
+    expect(await git('ls-remote', '--heads', 'origin', 'release/v1.1.0')).toBe('');
+    expect(await isExistingFile(path.join('releases', 'pkg-v1.0.0.json'))).toBe(false);
+    expect(await ReleaseState.load(repo)).toBeNull();
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Support for rolling back a partially completed release. The local and
+ * remote state of the repository is inspected to find what the release has
+ * done so that only what exists is undone.
+ */
+import { readFile, rm } from 'fs/promises';
+
+import { Git } from './Git';
+import { getBundleMetadataPath, getBundlePath, getReleaseNotesPath, getWorkspaceBundlePath } from './ReleaseBundle';
+import { getReleaseBranch, getReleaseTag, ReleaseConfig } from './ProjectConfig';
+import { ReleaseState } from './ReleaseState';
+import { isExistingFile } from './SubCommandHelpers';
+import { WorkspaceRelease } from './Workspaces';
+
+/**
+ * An action that undoes part of a release
+ */
+export interface RollbackAction {
+  // A description of what the action does
+  description: string;
+
+  // True if the action changes the remote rather than the local repository
+  remote: boolean;
+
+  // Performs the action, raising an error if it fails
+  run: () => Promise<void>;
+}
+
+/**
+ * The actions required to roll back a release along with anything that has
+ * been found that cannot be undone automatically
+ */
+export interface RollbackPlan {
+  actions: RollbackAction[];
+  notes: string[];
+}
+
+/**
+ * Inspect the repository and determine what is required to roll back the
+ * release of a version
+ *
+ * @param git - the repository
+ * @param config - the release configuration
+ * @param versionNum - the version whose release is to be rolled back
+ * @param nextVersionNums - the versions the release may have created the next
+ * release branch for
+ * @returns the rollback plan
+ */
+export async function planRollback(
+  git: Git,
+  config: ReleaseConfig,
+  versionNum: string,
+  nextVersionNums: string[]
+): Promise<RollbackPlan> {
+  const { remote, targetBranch } = config;
+  const plan: RollbackPlan = { actions: [], notes: [] };
+  const tag = getReleaseTag(config, versionNum);
+  const branch = getReleaseBranch(config, versionNum);
+
+  // Make sure what is known about the remote branches is current
+  await git.fetch(remote);
+
+  const currentBranch = await git.getCurrentBranch();
+  const releaseRef = await findBranchRef(git, remote, branch);
+
+  // The next release branch may be checked out so switch away from it before
+  // it is deleted
+  const nextBranches = await findNextBranches(git, config, releaseRef, nextVersionNums);
+  if (currentBranch !== undefined && nextBranches.some((next) => next.ref === currentBranch)) {
+    const switchTo = releaseRef === branch ? branch : targetBranch;
+    addAction(plan, `Switch to branch ${switchTo}`, false, () => git.checkout(switchTo));
+  }
+
+  // The merge into the target branch can only be undone if it has not been
+  // pushed, and only if it is the sole local change to the branch
+  const remoteTarget = `${remote}/${targetBranch}`;
+  if (releaseRef !== undefined && (await git.remoteBranchExists(remote, targetBranch))) {
+    if (await isMergedInto(git, releaseRef, remoteTarget)) {
+      plan.notes.push(
+        `The merge of ${branch} has been pushed to ${remoteTarget} and must be reverted manually if required`
+      );
+    } else if ((await git.branchExists(targetBranch)) && (await isMergedInto(git, releaseRef, targetBranch))) {
+      if (await isSoleLocalMerge(git, releaseRef, targetBranch, remoteTarget)) {
+        const description = `Remove the local merge of ${branch} by resetting ${targetBranch} to ${remoteTarget}`;
+        if (currentBranch === targetBranch) {
+          addAction(plan, description, false, () => git.resetKeep(remoteTarget));
+        } else {
+          addAction(plan, description, false, () => git.moveBranch(targetBranch, remoteTarget));
+        }
+      } else {
+        plan.notes.push(
+          `${targetBranch} has other local changes since ${remoteTarget} so the merge of ${branch} must be removed manually`
+        );
+      }
+    }
+  }
+
+  // The workspace packages released from a monorepo are only known from the
+  // saved state of the release
+  const state = await ReleaseState.load(git);
+  const workspaces: WorkspaceRelease[] = state !== null && state.version === tag ? state.context.workspaces ?? [] : [];
+  const tags = [tag, ...workspaces.map((pkg) => pkg.tag)];
+  for (const localTag of tags) {
+    if (await git.tagExists(localTag)) {
+      addAction(plan, `Delete the local tag ${localTag}`, false, () => git.deleteTag(localTag));
+    }
+  }
+
+  // The bundles are named after the packages being released
+  const manifest = JSON.parse(await readFile('package.json', 'utf8'));
+  const bundles = [
+    getBundlePath(config, manifest.name, tag),
+    ...workspaces.map((pkg) => getWorkspaceBundlePath(config, pkg.name, pkg.versionNum)),
+  ];
+  for (const bundle of bundles) {
+    if (await isExistingFile(bundle)) {
+      plan.actions.push({
+        description: `Delete the release bundle ${bundle}`,
+        remote: false,
+        run: async () => {
+          await rm(bundle, { force: true });
+          await rm(getBundleMetadataPath(bundle), { force: true });
+        },
+      });
+    }
+
+    const notes = getReleaseNotesPath(bundle);
+    if (await isExistingFile(notes)) {
+      plan.actions.push({
+        description: `Delete the release notes ${notes}`,
+        remote: false,
+        run: async () => {
+          await rm(notes, { force: true });
+        },
+      });
+    }
+  }
+
+  for (const next of nextBranches.filter((next) => !next.remote)) {
+    addAction(plan, `Delete the local branch ${next.ref}`, false, () => git.deleteBranch(next.ref));
+  }
+
+  if (state !== null && state.version === tag) {
+    plan.actions.push({
+      description: 'Discard the saved state of the release in progress',
+      remote: false,
+      run: async () => {
+        await state.remove();
+      },
+    });
+  }
+
+  // Then the changes that have reached the remote
+  for (const remoteTag of tags) {
+    if (await git.remoteTagExists(remote, remoteTag)) {
+      addAction(plan, `Delete the tag ${remoteTag} from ${remote}`, true, () =>
+        git.deleteRemoteRefs(remote, `refs/tags/${remoteTag}`)
+      );
+    }
+  }
+
+  for (const next of nextBranches.filter((next) => next.remote)) {
+    const name = next.ref.slice(remote.length + 1);
+    addAction(plan, `Delete the branch ${name} from ${remote}`, true, () => git.deleteRemoteRefs(remote, name));
+  }
+  return plan;
+}
+
+/**
+ * Find the next release branches, locally and on the remote, that only
+ * differ from the release and target branches by the commit bumping their
+ * version. Any other branches were not created by the release and are left
+ * alone.
+ *
+ * @param git - the repository
+ * @param config - the release configuration
+ * @param releaseRef - the ref of the release branch
+ * @param nextVersionNums - the versions of the possible next release branches
+ * @returns the refs of the branches and whether they are on the remote
+ */
+async function findNextBranches(
+  git: Git,
+  config: ReleaseConfig,
+  releaseRef: string | undefined,
+  nextVersionNums: string[]
+): Promise<{ ref: string; remote: boolean }[]> {
+  const branches: { ref: string; remote: boolean }[] = [];
+  if (releaseRef === undefined) {
+    return branches;
+  }
+
+  // The next release branch is created from the target branch after the merge
+  const baseRefs = [releaseRef];
+  if (await git.branchExists(config.targetBranch)) {
+    baseRefs.push(config.targetBranch);
+  }
+  if (await git.remoteBranchExists(config.remote, config.targetBranch)) {
+    baseRefs.push(`${config.remote}/${config.targetBranch}`);
+  }
+
+  for (const nextVersionNum of new Set(nextVersionNums)) {
+    const nextBranch = getReleaseBranch(config, nextVersionNum);
+    for (const [ref, remote] of [
+      [nextBranch, false],
+      [`${config.remote}/${nextBranch}`, true],
+    ] as const) {
+      if (!(await (remote ? git.remoteBranchExists(config.remote, nextBranch) : git.branchExists(nextBranch)))) {
+        continue;
+      }
+
+      const subjects = await git.log('%s', [ref, '--not', ...baseRefs]);
+      if (subjects === `Bump version to ${nextVersionNum}`) {
+        branches.push({ ref, remote });
+      }
+    }
+  }
+  return branches;
+}
+
+/**
+ * Check whether there is a commit on a branch that merges another
+ *
+ * @param git - the repository
+ * @param ref - the ref of the branch that may have been merged
+ * @param into - the ref of the branch that it may have been merged into
+ * @returns true if the branch has been merged
+ */
+async function isMergedInto(git: Git, ref: string, into: string): Promise<boolean> {
+  const tip = await git.getCommit(ref);
+  const parents = await git.log('%P', [`${ref}..${into}`], { merges: true, ancestryPath: true });
+  return parents.split('\n').some((line) => line.split(' ').slice(1).includes(tip));
+}
+
+/**
+ * Check whether the only commit on a branch that is not on its remote is the
+ * merge of another branch, in which case resetting the branch to the remote
+ * removes nothing else. The commits of the merged branch remain on it so are
+ * not counted.
+ *
+ * @param git - the repository
+ * @param ref - the ref of the branch that was merged
+ * @param branch - the branch it was merged into
+ * @param remoteBranch - the ref of the branch on the remote
+ * @returns true if the merge is the only local commit
+ */
+async function isSoleLocalMerge(git: Git, ref: string, branch: string, remoteBranch: string): Promise<boolean> {
+  const commits = (await git.log('%P', [branch, '--not', remoteBranch, ref])).split('\n').filter(Boolean);
+  return commits.length === 1 && commits[0].split(' ')[1] === (await git.getCommit(ref));
+}
+
+/**
+ * Find the ref of a branch, preferring the local branch over the remote one
+ *
+ * @param git - the repository
+ * @param remote - the name of the remote
+ * @param branch - the name of the branch
+ * @returns the ref or undefined if the branch does not exist
+ */
+async function findBranchRef(git: Git, remote: string, branch: string): Promise<string | undefined> {
+  if (await git.branchExists(branch)) {
+    return branch;
+  }
+  if (await git.remoteBranchExists(remote, branch)) {
+    return `${remote}/${branch}`;
+  }
+  return undefined;
+}
+
+/**
+ * Add an action to a rollback plan
+ *
+ * @param plan - the plan to add the action to
+ * @param description - a description of what the action does
+ * @param remote - true if the action changes the remote
+ * @param run - performs the action
+ */
+function addAction(plan: RollbackPlan, description: string, remote: boolean, run: () => Promise<void>): void {
+  plan.actions.push({ description, remote, run });
+}
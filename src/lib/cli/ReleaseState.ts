@@ -0,0 +1,205 @@
+/**
+ * Persistence of the progress made by `jetsam release` so that a release that
+ * fails part way through can be resumed from the step that failed.
+ */
+import { readFile, writeFile, unlink } from 'fs/promises';
+import path from 'path';
+
+import { Git } from './Git';
+import { isExistingFile } from './SubCommandHelpers';
+
+// The name of the file, relative to the git directory, the state is saved to
+const STATE_FILENAME = 'jetsam-release.json';
+
+/**
+ * The status of an individual step of a release
+ */
+export type ReleaseStepStatus = 'pending' | 'done' | 'failed';
+
+/**
+ * The persisted status of an individual step of a release
+ */
+export interface ReleaseStepState {
+  name: string;
+  status: ReleaseStepStatus;
+}
+
+/**
+ * The persisted state of a release
+ */
+export interface ReleaseStateData {
+  // The version tag being released
+  version: string;
+
+  // When the release was started and last updated
+  started: string;
+  updated: string;
+
+  // The values determined for the release that are required by its steps
+  context: Record<string, any>;
+
+  // The status of each step in the order they are to be performed
+  steps: ReleaseStepState[];
+}
+
+/**
+ * Tracks the status of each step of a release and saves it to a file in the
+ * git directory of the checkout so that it survives branch changes and is
+ * never committed.
+ */
+export class ReleaseState {
+  /**
+   * Constructor
+   *
+   * @param file - the file the state is saved to
+   * @param data - the state of the release
+   */
+  private constructor(private readonly file: string, private readonly data: ReleaseStateData) {}
+
+  /**
+   * Create the state for a new release
+   *
+   * @param git - the repository being released
+   * @param version - the version tag being released
+   * @param context - the values determined for the release
+   * @param stepNames - the names of the release steps in order
+   * @returns the new release state
+   */
+  public static async create(
+    git: Git,
+    version: string,
+    context: Record<string, any>,
+    stepNames: string[]
+  ): Promise<ReleaseState> {
+    const now = new Date().toISOString();
+    return new ReleaseState(await ReleaseState.getStateFile(git), {
+      version,
+      started: now,
+      updated: now,
+      context,
+      steps: stepNames.map((name) => ({ name, status: 'pending' })),
+    });
+  }
+
+  /**
+   * Load the state of the release in progress
+   *
+   * @param git - the repository being released
+   * @returns the state of the release or null if there is no release in
+   * progress
+   */
+  public static async load(git: Git): Promise<ReleaseState | null> {
+    const file = await ReleaseState.getStateFile(git);
+    if (!(await isExistingFile(file))) {
+      return null;
+    }
+
+    try {
+      return new ReleaseState(file, JSON.parse(await readFile(file, 'utf8')));
+    } catch (err) {
+      throw new Error(`Failed to read release state from ${file}: ${err}`);
+    }
+  }
+
+  /**
+   * Get the version tag being released
+   *
+   * @returns the version tag
+   */
+  public get version(): string {
+    return this.data.version;
+  }
+
+  /**
+   * Get the time the release was started
+   *
+   * @returns the time as an ISO-8601 string
+   */
+  public get started(): string {
+    return this.data.started;
+  }
+
+  /**
+   * Get the time the release state was last updated
+   *
+   * @returns the time as an ISO-8601 string
+   */
+  public get updated(): string {
+    return this.data.updated;
+  }
+
+  /**
+   * Get the values determined for the release. Changes made to the context are
+   * persisted the next time the state is saved.
+   *
+   * @returns the release context
+   */
+  public get context(): Record<string, any> {
+    return this.data.context;
+  }
+
+  /**
+   * Get the status of each step of the release in order
+   *
+   * @returns the step states
+   */
+  public get steps(): ReleaseStepState[] {
+    return this.data.steps;
+  }
+
+  /**
+   * Get the status of a given step
+   *
+   * @param name - the name of the step
+   * @returns the status of the step
+   */
+  public getStatus(name: string): ReleaseStepStatus {
+    return this.data.steps.find((step) => step.name === name)?.status ?? 'pending';
+  }
+
+  /**
+   * Set the status of a given step
+   *
+   * @param name - the name of the step
+   * @param status - the new status of the step
+   */
+  public setStatus(name: string, status: ReleaseStepStatus): void {
+    const step = this.data.steps.find((candidate) => candidate.name === name);
+    if (step === undefined) {
+      this.data.steps.push({ name, status });
+    } else {
+      step.status = status;
+    }
+  }
+
+  /**
+   * Save the state to its file
+   *
+   * @returns a promise resolved when complete
+   */
+  public async save(): Promise<void> {
+    this.data.updated = new Date().toISOString();
+    await writeFile(this.file, JSON.stringify(this.data, null, 2) + '\n', 'utf8');
+  }
+
+  /**
+   * Remove the state file, if it has been saved
+   *
+   * @returns a promise resolved when complete
+   */
+  public async remove(): Promise<void> {
+    if (await isExistingFile(this.file)) {
+      await unlink(this.file);
+    }
+  }
+
+  /**
+   * Get the path to the file used to save the release state
+   *
+   * @param git - the repository being released
+   * @returns the path to the state file
+   */
+  private static async getStateFile(git: Git): Promise<string> {
+    return path.join(path.resolve(git.dir, await git.getGitDir()), STATE_FILENAME);
+  }
+}
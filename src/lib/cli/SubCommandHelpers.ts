@@ -15,8 +15,14 @@ import { promisify } from 'util';
  * @param choices - optional list of valid choices
  * @param defaultChoice - optional default choice
  * @returns the user's input
+ * @throws Error if stdin is not a terminal
  */
 export async function getInput(prompt: string, choices?: string[], defaultChoice?: string): Promise<string> {
+  // Without a terminal, readline would wait forever for an answer to arrive
+  if (!process.stdin.isTTY) {
+    throw new Error(`Unable to prompt "${prompt}" as stdin is not a terminal`);
+  }
+
   const rl = createInterface({
     input: process.stdin,
     output: process.stdout,
@@ -82,6 +88,16 @@ export async function confirm(prompt: string, defaultChoice?: boolean): Promise<
   return answer === 'yes';
 }
 
+/**
+ * Displays a banner to the console
+ *
+ * @param text - the text to display in the banner
+ */
+export function banner(text: string): void {
+  // eslint-disable-next-line no-console
+  console.log(`\n${'#'.repeat(78)}\n# ${text}\n#\n`);
+}
+
 /**
  * Determine if a given path exists on the filesystem
  *
@@ -162,6 +178,16 @@ export async function filterFile(
   await writeFile(dst, contents, 'utf8');
 }
 
+/**
+ * Escape a string so that it can be used literally in a regex
+ *
+ * @param text - the text to escape
+ * @returns the escaped text
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
 /**
  * Execute a given command
  *
@@ -226,14 +252,17 @@ export async function executeCmdSilently(cmd: string, ...args: any[]): Promise<n
 }
 
 /**
- * Execute a given command and return its output. Any trailing newline in the
- * output is not removed.
+ * Execute a given command and return its exit status along with its output,
+ * even if the command fails. Any trailing newline in the output is not removed.
  *
  * @param cmd - the command to execute
  * @param args - the arguments for the command
- * @returns the command's output or undefined on error
+ * @returns the command's exit status and output or undefined on error
  */
-export function getOutputFromCmdNoChomp(cmd: string, ...args: any[]): Promise<string | undefined> {
+export function getResultFromCmd(
+  cmd: string,
+  ...args: any[]
+): Promise<{ exitStatus: number; output: string } | undefined> {
   return new Promise((resolve, reject) => {
     // Run the command using this process's stdin and stderr and reading from
     // the child's stdout.
@@ -254,16 +283,25 @@ export function getOutputFromCmdNoChomp(cmd: string, ...args: any[]): Promise<st
     child.on('close', (code) => {
       if (!fulfilled) {
         ++fulfilled;
-        if (code === 0) {
-          resolve(Buffer.concat(buffers).toString());
-        } else {
-          resolve(undefined);
-        }
+        resolve({ exitStatus: code ?? -1, output: Buffer.concat(buffers).toString() });
       }
     });
   });
 }
 
+/**
+ * Execute a given command and return its output. Any trailing newline in the
+ * output is not removed.
+ *
+ * @param cmd - the command to execute
+ * @param args - the arguments for the command
+ * @returns the command's output or undefined on error
+ */
+export async function getOutputFromCmdNoChomp(cmd: string, ...args: any[]): Promise<string | undefined> {
+  const result = await getResultFromCmd(cmd, ...args);
+  return result?.exitStatus === 0 ? result.output : undefined;
+}
+
 /**
  * Execute a given command and return its output removing any trailing newline
  *
@@ -0,0 +1,142 @@
+/**
+ * A minimal reader for the gzipped tarballs created by `yarn pack` and
+ * `npm pack`. Only what is needed to inspect a package is supported, that is,
+ * regular files and directories along with long names in either the GNU or
+ * the pax format.
+ */
+import { readFile } from 'fs/promises';
+import { promisify } from 'util';
+import { gunzip } from 'zlib';
+
+// The size of the blocks that make up a tarball
+const BLOCK_SIZE = 512;
+
+/**
+ * An entry in a tarball
+ */
+export interface TarEntry {
+  // The path of the entry within the tarball
+  path: string;
+
+  // The type of the entry, `file`, `directory` or `other`
+  type: 'file' | 'directory' | 'other';
+
+  // The permissions of the entry
+  mode: number;
+
+  // The size of the entry in bytes and its contents
+  size: number;
+  data: Buffer;
+}
+
+/**
+ * Read the entries of a gzipped tarball
+ *
+ * @param file - the path to the tarball
+ * @returns the entries in the order they appear in the tarball
+ */
+export async function readTarball(file: string): Promise<TarEntry[]> {
+  const contents = await promisify(gunzip)(await readFile(file));
+  const entries: TarEntry[] = [];
+
+  // The path of the next entry if given by an extended header
+  let longPath: string | undefined;
+
+  let offset = 0;
+  while (offset + BLOCK_SIZE <= contents.length) {
+    const header = contents.subarray(offset, offset + BLOCK_SIZE);
+
+    // The archive ends with blocks of zeros
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const size = readOctal(header, 124, 12);
+    const typeFlag = String.fromCharCode(header[156]);
+    const data = contents.subarray(offset + BLOCK_SIZE, offset + BLOCK_SIZE + size);
+    offset += BLOCK_SIZE + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (typeFlag === 'L') {
+      // GNU long name for the next entry
+      longPath = readString(data, 0, data.length);
+      continue;
+    }
+    if (typeFlag === 'x' || typeFlag === 'g') {
+      // pax extended header, only the path is of interest
+      const pax = parsePaxRecords(data);
+      if (typeFlag === 'x' && pax.path !== undefined) {
+        longPath = pax.path;
+      }
+      continue;
+    }
+
+    // The ustar format splits long names between the prefix and name
+    let path = readString(header, 0, 100);
+    const prefix = readString(header, 257, 6) === 'ustar' ? readString(header, 345, 155) : '';
+    if (prefix !== '') {
+      path = `${prefix}/${path}`;
+    }
+
+    entries.push({
+      path: longPath ?? path,
+      type: typeFlag === '0' || typeFlag === '\0' ? 'file' : typeFlag === '5' ? 'directory' : 'other',
+      mode: readOctal(header, 100, 8),
+      size,
+      data,
+    });
+    longPath = undefined;
+  }
+  return entries;
+}
+
+/**
+ * Read a NUL terminated string from a header field
+ *
+ * @param buffer - the buffer containing the field
+ * @param start - the offset of the field
+ * @param length - the length of the field
+ * @returns the string
+ */
+function readString(buffer: Buffer, start: number, length: number): string {
+  const field = buffer.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.toString('utf8', 0, end === -1 ? field.length : end);
+}
+
+/**
+ * Read an octal number from a header field
+ *
+ * @param buffer - the buffer containing the field
+ * @param start - the offset of the field
+ * @param length - the length of the field
+ * @returns the number
+ */
+function readOctal(buffer: Buffer, start: number, length: number): number {
+  const text = readString(buffer, start, length).trim();
+  return text === '' ? 0 : parseInt(text, 8);
+}
+
+/**
+ * Parse the records of a pax extended header, each of which is of the form
+ * `<length> <key>=<value>\n`
+ *
+ * @param data - the contents of the header
+ * @returns the values of the records by key
+ */
+function parsePaxRecords(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    const length = parseInt(data.toString('utf8', offset, space), 10);
+    if (space === -1 || !(length > 0)) {
+      break;
+    }
+
+    const record = data.toString('utf8', space + 1, offset + length - 1);
+    const equals = record.indexOf('=');
+    records[record.slice(0, equals)] = record.slice(equals + 1);
+    offset += length;
+  }
+  return records;
+}
@@ -0,0 +1,112 @@
+import { compareVersions, satisfies, Version } from './Version';
+
+describe('Version', () => {
+  describe('parse', () => {
+    it('parses a version with pre-release and build metadata', () => {
+      const version = Version.parse('v1.2.3-rc.1+build.5');
+      expect(version.major).toBe(1);
+      expect(version.minor).toBe(2);
+      expect(version.patch).toBe(3);
+      expect(version.prerelease).toEqual(['rc', 1]);
+      expect(version.build).toEqual(['build', '5']);
+      expect(version.toString()).toBe('1.2.3-rc.1+build.5');
+    });
+
+    it('rejects invalid versions', () => {
+      expect(() => Version.parse('1.2')).toThrow('Invalid version "1.2"');
+      expect(Version.isValid('01.2.3')).toBe(false);
+      expect(Version.isValid('1.2.3-01')).toBe(false);
+    });
+  });
+
+  describe('compare', () => {
+    it.each([
+      ['1.0.0', '2.0.0'],
+      ['1.2.0', '1.10.0'],
+      ['1.0.0-alpha', '1.0.0'],
+      ['1.0.0-alpha', '1.0.0-alpha.1'],
+      ['1.0.0-alpha.1', '1.0.0-alpha.beta'],
+      ['1.0.0-beta.2', '1.0.0-beta.11'],
+      ['1.0.0-rc.1', '1.0.0-rc.1.1'],
+    ])('orders %s before %s', (lower, higher) => {
+      expect(compareVersions(lower, higher)).toBeLessThan(0);
+      expect(compareVersions(higher, lower)).toBeGreaterThan(0);
+    });
+
+    it('ignores build metadata', () => {
+      expect(Version.parse('1.0.0+a').equals('1.0.0+b')).toBe(true);
+    });
+  });
+
+  describe('inc', () => {
+    it.each([
+      ['1.2.3', 'major', undefined, '2.0.0'],
+      ['1.2.3', 'minor', undefined, '1.3.0'],
+      ['1.2.3', 'patch', undefined, '1.2.4'],
+      ['2.0.0-rc.1', 'major', undefined, '2.0.0'],
+      ['1.3.0-rc.1', 'minor', undefined, '1.3.0'],
+      ['1.2.4-rc.1', 'patch', undefined, '1.2.4'],
+      ['1.2.3', 'premajor', 'rc', '2.0.0-rc.0'],
+      ['1.2.3', 'preminor', undefined, '1.3.0-0'],
+      ['1.2.3', 'prepatch', 'beta', '1.2.4-beta.0'],
+      ['1.2.3', 'prerelease', 'rc', '1.2.4-rc.0'],
+      ['1.2.4-rc.0', 'prerelease', 'rc', '1.2.4-rc.1'],
+      ['1.2.4-beta.3', 'prerelease', 'rc', '1.2.4-rc.0'],
+      ['1.2.4-rc', 'prerelease', undefined, '1.2.4-rc.0'],
+      ['1.2.4-rc.1.beta', 'prerelease', undefined, '1.2.4-rc.2.beta'],
+    ] as const)('increments %s by %s (%s) to %s', (from, type, preid, to) => {
+      expect(Version.parse(from).inc(type, preid).toString()).toBe(to);
+    });
+
+    it('drops build metadata', () => {
+      expect(Version.parse('1.2.3+build.1').inc('patch').toString()).toBe('1.2.4');
+    });
+  });
+
+  describe('satisfies', () => {
+    it.each([
+      ['1.2.3', '1.2.3'],
+      ['1.2.3', '=1.2.3'],
+      ['1.2.9', '1.2.x'],
+      ['1.9.0', '1'],
+      ['1.9.0', '*'],
+      ['1.9.0', ''],
+      ['1.9.0', '^1.2.0'],
+      ['0.2.9', '^0.2.3'],
+      ['0.0.3', '^0.0.3'],
+      ['1.2.9', '~1.2.3'],
+      ['1.9.0', '~1'],
+      ['1.2.9', '~>1.2.3'],
+      ['2.0.0', '>1.9.9'],
+      ['2.0.0', '>1.9'],
+      ['1.9.9', '<2'],
+      ['2.0.0', '<=2'],
+      ['2.3.0', '1.2.3 - 2.3'],
+      ['2.5.0', '^1.2.0 || >=2.1.0 <3'],
+      ['2.5.0', '>= 2.1.0 < 3'],
+      ['1.2.4-rc.1', '>=1.2.4-rc.0'],
+    ])('%s satisfies %s', (version, range) => {
+      expect(satisfies(version, range)).toBe(true);
+    });
+
+    it.each([
+      ['1.3.0', '1.2.x'],
+      ['2.0.0', '^1.2.0'],
+      ['0.3.0', '^0.2.3'],
+      ['0.0.4', '^0.0.3'],
+      ['1.3.0', '~1.2.3'],
+      ['1.9.9', '>1.9'],
+      ['2.0.0', '<2'],
+      ['2.4.0', '1.2.3 - 2.3'],
+      ['2.0.0-rc.1', '<2.0.0'],
+      ['1.2.5-rc.1', '>=1.2.4-rc.0'],
+      ['1.5.0', '^1.2.0 <1.5.0 || >=2.1.0 <3'],
+    ])('%s does not satisfy %s', (version, range) => {
+      expect(satisfies(version, range)).toBe(false);
+    });
+
+    it('rejects invalid ranges', () => {
+      expect(() => satisfies('1.0.0', '>=a.b')).toThrow('Invalid version range ">=a.b"');
+    });
+  });
+});
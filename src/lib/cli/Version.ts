@@ -0,0 +1,476 @@
+/**
+ * An implementation of semantic versioning (https://semver.org) that can be
+ * used to parse, compare and increment versions and to test whether they
+ * satisfy a range in the form used by npm.
+ */
+
+/**
+ * A pattern matching a full semver version including any pre-release and build
+ * metadata. It has no anchors or capture groups so can be embedded in another
+ * regex.
+ */
+export const VERSION_PATTERN =
+  '\\d+\\.\\d+\\.\\d+(?:-[0-9A-Za-z-]+(?:\\.[0-9A-Za-z-]+)*)?(?:\\+[0-9A-Za-z-]+(?:\\.[0-9A-Za-z-]+)*)?';
+
+// The regex used to parse a version into its parts
+const VERSION_REGEX =
+  /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[A-Za-z-][0-9A-Za-z-]*)(?:\.(?:0|[1-9]\d*|\d*[A-Za-z-][0-9A-Za-z-]*))*))?(?:\+([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/;
+
+// The regex used to parse a possibly partial version in a range, eg: `1.2.x`
+const PARTIAL_REGEX =
+  /^v?(\d+|[xX*])(?:\.(\d+|[xX*])(?:\.(\d+|[xX*])(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-.]+)?)?)?$/;
+
+/**
+ * The ways in which a version can be incremented
+ */
+export type ReleaseType = 'major' | 'minor' | 'patch' | 'premajor' | 'preminor' | 'prepatch' | 'prerelease';
+
+/**
+ * An identifier in the pre-release part of a version
+ */
+export type PrereleaseIdentifier = string | number;
+
+/**
+ * An immutable semantic version
+ */
+export class Version {
+  /**
+   * Constructor
+   *
+   * @param major - the major version number
+   * @param minor - the minor version number
+   * @param patch - the patch version number
+   * @param prerelease - the pre-release identifiers, if any
+   * @param build - the build metadata identifiers, if any
+   */
+  public constructor(
+    public readonly major: number,
+    public readonly minor: number,
+    public readonly patch: number,
+    public readonly prerelease: readonly PrereleaseIdentifier[] = [],
+    public readonly build: readonly string[] = []
+  ) {}
+
+  /**
+   * Parse a version. A leading `v` is accepted.
+   *
+   * @param text - the version to parse
+   * @returns the version
+   * @throws Error if the text is not a valid version
+   */
+  public static parse(text: string): Version {
+    const version = Version.tryParse(text);
+    if (version === undefined) {
+      throw new Error(`Invalid version "${text}"`);
+    }
+    return version;
+  }
+
+  /**
+   * Attempt to parse a version
+   *
+   * @param text - the version to parse
+   * @returns the version or undefined if the text is not a valid version
+   */
+  public static tryParse(text: string): Version | undefined {
+    const match = VERSION_REGEX.exec(text.trim());
+    if (match === null) {
+      return undefined;
+    }
+
+    return new Version(
+      Number(match[1]),
+      Number(match[2]),
+      Number(match[3]),
+      match[4] === undefined ? [] : match[4].split('.').map(toIdentifier),
+      match[5] === undefined ? [] : match[5].split('.')
+    );
+  }
+
+  /**
+   * Determine if a string is a valid version
+   *
+   * @param text - the string to test
+   * @returns true if it is a valid version
+   */
+  public static isValid(text: string): boolean {
+    return Version.tryParse(text) !== undefined;
+  }
+
+  /**
+   * Determine if this is a pre-release version
+   *
+   * @returns true if the version has pre-release identifiers
+   */
+  public get isPrerelease(): boolean {
+    return this.prerelease.length > 0;
+  }
+
+  /**
+   * Compare this version with another using semver precedence. Build metadata
+   * is ignored.
+   *
+   * @param other - the version to compare with
+   * @returns a negative number, zero or a positive number if this version is
+   * less than, equal to or greater than the other
+   */
+  public compare(other: Version | string): number {
+    const that = typeof other === 'string' ? Version.parse(other) : other;
+    return this.compareMain(that) || this.comparePrerelease(that);
+  }
+
+  /**
+   * Determine if this version has the same precedence as another
+   *
+   * @param other - the version to compare with
+   * @returns true if the versions are equal ignoring build metadata
+   */
+  public equals(other: Version | string): boolean {
+    return this.compare(other) === 0;
+  }
+
+  /**
+   * Get the version that results from incrementing this version. Any build
+   * metadata is dropped.
+   *
+   * @param type - the type of increment
+   * @param preid - the identifier to use for pre-release versions, eg: `rc`
+   * @returns the incremented version
+   */
+  public inc(type: ReleaseType, preid?: string): Version {
+    const { major, minor, patch } = this;
+    const first = (): PrereleaseIdentifier[] => (preid === undefined ? [0] : [preid, 0]);
+
+    switch (type) {
+      // A pre-release of the version being incremented to is released as is
+      case 'major':
+        return minor === 0 && patch === 0 && this.isPrerelease
+          ? new Version(major, 0, 0)
+          : new Version(major + 1, 0, 0);
+      case 'minor':
+        return patch === 0 && this.isPrerelease ? new Version(major, minor, 0) : new Version(major, minor + 1, 0);
+      case 'patch':
+        return this.isPrerelease ? new Version(major, minor, patch) : new Version(major, minor, patch + 1);
+
+      case 'premajor':
+        return new Version(major + 1, 0, 0, first());
+      case 'preminor':
+        return new Version(major, minor + 1, 0, first());
+      case 'prepatch':
+        return new Version(major, minor, patch + 1, first());
+
+      case 'prerelease': {
+        if (!this.isPrerelease) {
+          return this.inc('prepatch', preid);
+        }
+
+        // Switching to a different identifier starts again from zero
+        if (preid !== undefined && this.prerelease[0] !== preid) {
+          return new Version(major, minor, patch, [preid, 0]);
+        }
+
+        // Otherwise bump the last numeric identifier or add one if there is none
+        const prerelease = [...this.prerelease];
+        let index = prerelease.length - 1;
+        while (index >= 0 && typeof prerelease[index] !== 'number') {
+          --index;
+        }
+        if (index < 0) {
+          prerelease.push(0);
+        } else {
+          prerelease[index] = (prerelease[index] as number) + 1;
+        }
+        return new Version(major, minor, patch, prerelease);
+      }
+
+      default:
+        throw new Error(`Invalid release type "${type}"`);
+    }
+  }
+
+  /**
+   * Determine if this version satisfies a range
+   *
+   * @param range - the range, eg: `^1.2.0 || >=2.1.0 <3`
+   * @returns true if the version is within the range
+   */
+  public satisfies(range: string): boolean {
+    return parseRange(range).some((comparators) => testComparatorSet(this, comparators));
+  }
+
+  /**
+   * Get the string form of the version
+   *
+   * @returns the version, eg: `1.2.3-rc.1+build.5`
+   */
+  public toString(): string {
+    let text = `${this.major}.${this.minor}.${this.patch}`;
+    if (this.isPrerelease) {
+      text += `-${this.prerelease.join('.')}`;
+    }
+    if (this.build.length > 0) {
+      text += `+${this.build.join('.')}`;
+    }
+    return text;
+  }
+
+  /**
+   * Compare the major, minor and patch numbers with those of another version
+   *
+   * @param that - the version to compare with
+   * @returns the comparison result
+   */
+  private compareMain(that: Version): number {
+    return this.major - that.major || this.minor - that.minor || this.patch - that.patch;
+  }
+
+  /**
+   * Compare the pre-release identifiers with those of another version
+   *
+   * @param that - the version to compare with
+   * @returns the comparison result
+   */
+  private comparePrerelease(that: Version): number {
+    // A version without a pre-release has higher precedence than one with
+    if (!this.isPrerelease || !that.isPrerelease) {
+      return Number(that.isPrerelease) - Number(this.isPrerelease);
+    }
+
+    const length = Math.max(this.prerelease.length, that.prerelease.length);
+    for (let index = 0; index < length; ++index) {
+      const a = this.prerelease[index];
+      const b = that.prerelease[index];
+      if (a === undefined || b === undefined) {
+        return a === undefined ? -1 : 1;
+      }
+      if (a !== b) {
+        // Numeric identifiers have lower precedence than alphanumeric ones
+        if (typeof a === 'number' && typeof b === 'number') {
+          return a - b;
+        }
+        if (typeof a === 'number' || typeof b === 'number') {
+          return typeof a === 'number' ? -1 : 1;
+        }
+        return a < b ? -1 : 1;
+      }
+    }
+    return 0;
+  }
+}
+
+/**
+ * Compare two versions using semver precedence
+ *
+ * @param a - the first version
+ * @param b - the second version
+ * @returns a negative number, zero or a positive number if `a` is less than,
+ * equal to or greater than `b`
+ */
+export function compareVersions(a: Version | string, b: Version | string): number {
+  return (typeof a === 'string' ? Version.parse(a) : a).compare(b);
+}
+
+/**
+ * Determine if a version satisfies a range
+ *
+ * @param version - the version to test
+ * @param range - the range, eg: `^1.2.0 || >=2.1.0 <3`
+ * @returns true if the version is within the range
+ */
+export function satisfies(version: Version | string, range: string): boolean {
+  return (typeof version === 'string' ? Version.parse(version) : version).satisfies(range);
+}
+
+/**
+ * A primitive comparison against a version that a range is reduced to
+ */
+interface Comparator {
+  operator: '<' | '<=' | '>' | '>=' | '=';
+  version: Version;
+}
+
+/**
+ * A possibly partial version where missing parts are undefined
+ */
+interface PartialVersion {
+  major?: number;
+  minor?: number;
+  patch?: number;
+  prerelease: PrereleaseIdentifier[];
+}
+
+/**
+ * Parse a range into a list of comparator sets, any one of which must be
+ * satisfied
+ *
+ * @param range - the range to parse
+ * @returns the comparator sets
+ */
+function parseRange(range: string): Comparator[][] {
+  return range.split('||').map((set) => {
+    const text = set.trim();
+
+    // Hyphen ranges, eg: `1.2.3 - 2.3.4`
+    const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(text);
+    if (hyphen !== null) {
+      return [...desugar('>=', parsePartial(hyphen[1], range)), ...desugar('<=', parsePartial(hyphen[2], range))];
+    }
+
+    // Otherwise a space separated list of comparators that must all hold
+    const comparators: Comparator[] = [];
+    for (const token of text.replace(/(<=|>=|<|>|=|~|\^)\s+/g, '$1').split(/\s+/)) {
+      if (token === '') {
+        continue;
+      }
+      const match = /^(<=|>=|<|>|=|~>?|\^)?(.*)$/.exec(token) as RegExpExecArray;
+      const operator = match[1] === '~>' ? '~' : match[1] ?? '';
+      comparators.push(...desugar(operator, parsePartial(match[2], range)));
+    }
+    return comparators;
+  });
+}
+
+/**
+ * Parse a possibly partial version from a range
+ *
+ * @param text - the partial version
+ * @param range - the range being parsed for use in errors
+ * @returns the partial version
+ */
+function parsePartial(text: string, range: string): PartialVersion {
+  if (text === '') {
+    return { prerelease: [] };
+  }
+
+  const match = PARTIAL_REGEX.exec(text);
+  if (match === null) {
+    throw new Error(`Invalid version range "${range}"`);
+  }
+
+  const toNumber = (part?: string) => (part === undefined || /^[xX*]$/.test(part) ? undefined : Number(part));
+  const major = toNumber(match[1]);
+  const minor = major === undefined ? undefined : toNumber(match[2]);
+  const patch = minor === undefined ? undefined : toNumber(match[3]);
+  return {
+    major,
+    minor,
+    patch,
+    prerelease: patch === undefined || match[4] === undefined ? [] : match[4].split('.').map(toIdentifier),
+  };
+}
+
+/**
+ * Reduce an operator applied to a partial version to primitive comparators.
+ * Upper bounds use a `-0` pre-release so that pre-releases of the bound are
+ * excluded.
+ *
+ * @param operator - the operator, empty for an exact or X-range
+ * @param partial - the partial version
+ * @returns the primitive comparators
+ */
+function desugar(operator: string, partial: PartialVersion): Comparator[] {
+  const { major, minor, patch, prerelease } = partial;
+  const lower = new Version(major ?? 0, minor ?? 0, patch ?? 0, prerelease);
+  const upperBound = (version: Version): Comparator => ({
+    operator: '<',
+    version: new Version(version.major, version.minor, version.patch, [0]),
+  });
+
+  // Wildcards match everything
+  if (major === undefined) {
+    return operator === '<' || operator === '>' ? [{ operator: '<', version: new Version(0, 0, 0, [0]) }] : [];
+  }
+
+  // The version just above everything matched by the partial version
+  const next =
+    minor === undefined
+      ? new Version(major + 1, 0, 0)
+      : patch === undefined
+      ? new Version(major, minor + 1, 0)
+      : undefined;
+
+  switch (operator) {
+    case '':
+    case '=':
+      return next === undefined
+        ? [{ operator: '=', version: lower }]
+        : [{ operator: '>=', version: lower }, upperBound(next)];
+    case '>':
+      return [next === undefined ? { operator: '>', version: lower } : { operator: '>=', version: next }];
+    case '>=':
+      return [{ operator: '>=', version: lower }];
+    case '<':
+      return [next === undefined ? { operator: '<', version: lower } : upperBound(lower)];
+    case '<=':
+      return [next === undefined ? { operator: '<=', version: lower } : upperBound(next)];
+    case '~':
+      return [
+        { operator: '>=', version: lower },
+        upperBound(minor === undefined ? new Version(major + 1, 0, 0) : new Version(major, minor + 1, 0)),
+      ];
+    case '^': {
+      // The left-most non-zero part may not change
+      let upper: Version;
+      if (major > 0 || minor === undefined) {
+        upper = new Version(major + 1, 0, 0);
+      } else if (minor > 0 || patch === undefined) {
+        upper = new Version(0, minor + 1, 0);
+      } else {
+        upper = new Version(0, 0, patch + 1);
+      }
+      return [{ operator: '>=', version: lower }, upperBound(upper)];
+    }
+    default:
+      throw new Error(`Invalid range operator "${operator}"`);
+  }
+}
+
+/**
+ * Determine if a version satisfies all comparators in a set. As with npm, a
+ * pre-release version only satisfies a set if one of its comparators refers to
+ * a pre-release of the same major, minor and patch version.
+ *
+ * @param version - the version to test
+ * @param comparators - the comparator set
+ * @returns true if the version satisfies the set
+ */
+function testComparatorSet(version: Version, comparators: Comparator[]): boolean {
+  for (const { operator, version: bound } of comparators) {
+    const result = version.compare(bound);
+    const passed =
+      operator === '<'
+        ? result < 0
+        : operator === '<='
+        ? result <= 0
+        : operator === '>'
+        ? result > 0
+        : operator === '>='
+        ? result >= 0
+        : result === 0;
+    if (!passed) {
+      return false;
+    }
+  }
+
+  if (!version.isPrerelease) {
+    return true;
+  }
+
+  return comparators.some(
+    ({ version: bound }) =>
+      bound.isPrerelease &&
+      bound.major === version.major &&
+      bound.minor === version.minor &&
+      bound.patch === version.patch
+  );
+}
+
+/**
+ * Convert a pre-release identifier to a number if it is numeric
+ *
+ * @param identifier - the identifier
+ * @returns the identifier as a number or string
+ */
+function toIdentifier(identifier: string): PrereleaseIdentifier {
+  return /^\d+$/.test(identifier) ? Number(identifier) : identifier;
+}
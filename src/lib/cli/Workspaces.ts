@@ -0,0 +1,321 @@
+/**
+ * Support for releasing the packages of a yarn workspaces monorepo. The
+ * packages that have changed since they were last tagged are released along
+ * with the packages that depend on them, so that the versions of the packages
+ * within the monorepo remain consistent.
+ */
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+
+import { getCommitsSince } from './Changelog';
+import { Git } from './Git';
+import { expandGlob } from './Glob';
+import { getWorkspaceTag, parseWorkspaceTag, WorkspacesConfig } from './ProjectConfig';
+import { isExistingFile } from './SubCommandHelpers';
+import { ReleaseType, satisfies, Version } from './Version';
+
+// The fields of package.json that list dependencies on other packages
+const DEPENDENCY_FIELDS = ['dependencies', 'optionalDependencies', 'peerDependencies', 'devDependencies'];
+
+// The dependencies that require a package to be released when they are
+const RUNTIME_DEPENDENCY_FIELDS = ['dependencies', 'optionalDependencies', 'peerDependencies'];
+
+// The protocol used by yarn to refer to packages in the same workspace
+const WORKSPACE_PROTOCOL = 'workspace:';
+
+/**
+ * A package within a monorepo
+ */
+export interface WorkspacePackage {
+  // The name of the package and its directory relative to the monorepo root
+  name: string;
+  dir: string;
+
+  // The version in the package's manifest
+  versionNum: string;
+
+  // True if the package is not to be published
+  private: boolean;
+
+  // The package's manifest
+  manifest: Record<string, any>;
+}
+
+/**
+ * A package that is to be released from a monorepo. This is persisted along
+ * with the release state so it must be serialisable.
+ */
+export interface WorkspaceRelease {
+  name: string;
+  dir: string;
+
+  // The version being released, the one it replaces and the tag for it
+  previousVersionNum: string;
+  versionNum: string;
+  tag: string;
+
+  // Why the package is being released, either because it has changed or
+  // because it depends on a package that is being released
+  reason: 'changed' | 'dependent';
+}
+
+/**
+ * Get the workspace patterns from the manifest at the root of a monorepo
+ *
+ * @param manifest - the root manifest
+ * @returns the patterns or undefined if it is not a monorepo
+ */
+export function getWorkspacePatterns(manifest: Record<string, any>): string[] | undefined {
+  const workspaces = manifest.workspaces;
+  if (Array.isArray(workspaces)) {
+    return workspaces;
+  }
+  return Array.isArray(workspaces?.packages) ? workspaces.packages : undefined;
+}
+
+/**
+ * Find the packages in a monorepo
+ *
+ * @param patterns - the workspace patterns from the root manifest
+ * @returns the packages sorted by name
+ */
+export async function findWorkspacePackages(patterns: string[]): Promise<WorkspacePackage[]> {
+  const packages = new Map<string, WorkspacePackage>();
+  for (const pattern of patterns) {
+    for (const dir of await expandGlob(pattern)) {
+      const manifestFile = path.join(dir, 'package.json');
+      if (packages.has(dir) || !(await isExistingFile(manifestFile))) {
+        continue;
+      }
+
+      const manifest = JSON.parse(await readFile(manifestFile, 'utf8'));
+      packages.set(dir, {
+        name: manifest.name,
+        dir,
+        versionNum: manifest.version,
+        private: manifest.private === true,
+        manifest,
+      });
+    }
+  }
+  return [...packages.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Plan which packages of a monorepo are to be released and their versions
+ *
+ * @param git - the repository of the monorepo
+ * @param config - the workspaces configuration
+ * @param packages - the packages in the monorepo
+ * @param releaseVersionNum - the version of the release, used by all packages
+ * when versioning is fixed
+ * @param chooseReleaseType - called when versioning is independent to choose
+ * the type of release of a package given a suggestion
+ * @returns the packages to be released in name order
+ */
+export async function planWorkspaceRelease(
+  git: Git,
+  config: WorkspacesConfig,
+  packages: WorkspacePackage[],
+  releaseVersionNum: string,
+  chooseReleaseType: (pkg: WorkspacePackage, suggested: ReleaseType) => Promise<ReleaseType>
+): Promise<WorkspaceRelease[]> {
+  const publicPackages = packages.filter((pkg) => !pkg.private);
+  const releases = new Map<string, WorkspaceRelease>();
+
+  const addRelease = (pkg: WorkspacePackage, versionNum: string, reason: WorkspaceRelease['reason']) =>
+    releases.set(pkg.name, {
+      name: pkg.name,
+      dir: pkg.dir,
+      previousVersionNum: pkg.versionNum,
+      versionNum,
+      tag: getWorkspaceTag(config, pkg.name, versionNum),
+      reason,
+    });
+
+  // Packages that have changed since they were last tagged, where a package
+  // that has never been tagged is released with the version it already has
+  for (const pkg of publicPackages) {
+    const previousTag = await findPreviousWorkspaceTag(git, config, pkg.name);
+    if (previousTag !== undefined && !(await git.hasChanges(previousTag, 'HEAD', [pkg.dir]))) {
+      continue;
+    }
+
+    let versionNum = releaseVersionNum;
+    if (config.versioning === 'independent') {
+      versionNum =
+        previousTag === undefined
+          ? pkg.versionNum
+          : Version.parse(pkg.versionNum)
+              .inc(await chooseReleaseType(pkg, await suggestReleaseType(git, pkg.dir, previousTag)))
+              .toString();
+    }
+    addRelease(pkg, versionNum, 'changed');
+  }
+
+  // Then the packages that depend on them, directly or indirectly
+  let added = true;
+  while (added) {
+    added = false;
+    for (const pkg of publicPackages) {
+      if (releases.has(pkg.name) || !dependsOnAny(pkg.manifest, releases)) {
+        continue;
+      }
+
+      let versionNum = releaseVersionNum;
+      if (config.versioning === 'independent') {
+        versionNum = Version.parse(pkg.versionNum)
+          .inc(await chooseReleaseType(pkg, 'patch'))
+          .toString();
+      }
+      addRelease(pkg, versionNum, 'dependent');
+      added = true;
+    }
+  }
+  return [...releases.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Update the manifests of the packages in a monorepo for a release, setting
+ * the version of each package released and updating the dependencies on them
+ *
+ * @param packages - the packages in the monorepo
+ * @param releases - the packages being released
+ * @param write - false to only determine which manifests would change
+ * @returns the manifest files that were changed
+ */
+export async function applyWorkspaceRelease(
+  packages: WorkspacePackage[],
+  releases: WorkspaceRelease[],
+  write = true
+): Promise<string[]> {
+  const versions = new Map(releases.map((release) => [release.name, release.versionNum]));
+  const changedFiles: string[] = [];
+
+  for (const pkg of packages) {
+    const manifestFile = path.join(pkg.dir, 'package.json');
+    const text = await readFile(manifestFile, 'utf8');
+    const manifest = JSON.parse(text);
+
+    let changed = false;
+    const versionNum = versions.get(pkg.name);
+    if (versionNum !== undefined && manifest.version !== versionNum) {
+      manifest.version = versionNum;
+      changed = true;
+    }
+
+    for (const field of DEPENDENCY_FIELDS) {
+      for (const [dependency, range] of Object.entries<string>(manifest[field] ?? {})) {
+        const dependencyVersionNum = versions.get(dependency);
+        if (dependencyVersionNum === undefined) {
+          continue;
+        }
+
+        const updated = updateRange(range, dependencyVersionNum);
+        if (updated !== range) {
+          manifest[field][dependency] = updated;
+          changed = true;
+        }
+      }
+    }
+
+    // Keep the indentation used by the manifest
+    if (changed) {
+      if (write) {
+        const indent = /^[ \t]+(?=")/m.exec(text)?.[0] ?? 2;
+        await writeFile(manifestFile, JSON.stringify(manifest, null, indent) + '\n', 'utf8');
+      }
+      changedFiles.push(manifestFile);
+    }
+  }
+  return changedFiles;
+}
+
+/**
+ * Find the most recent tag of a package in a monorepo that is reachable from
+ * the current commit
+ *
+ * @param git - the repository of the monorepo
+ * @param config - the workspaces configuration
+ * @param name - the name of the package
+ * @returns the tag or undefined if the package has not been tagged
+ */
+export async function findPreviousWorkspaceTag(
+  git: Git,
+  config: WorkspacesConfig,
+  name: string
+): Promise<string | undefined> {
+  let latest: { tag: string; version: Version } | undefined;
+  for (const tag of await git.listTags(getWorkspaceTag(config, name, '[0-9]*'), 'HEAD')) {
+    const version = Version.tryParse(parseWorkspaceTag(config, name, tag) ?? '');
+    if (version !== undefined && (latest === undefined || version.compare(latest.version) > 0)) {
+      latest = { tag, version };
+    }
+  }
+  return latest?.tag;
+}
+
+/**
+ * Suggest the type of release of a package from the conventional commits made
+ * to it since it was last tagged
+ *
+ * @param git - the repository of the monorepo
+ * @param dir - the directory of the package
+ * @param tag - the tag of the last release of the package
+ * @returns the suggested type of release
+ */
+async function suggestReleaseType(git: Git, dir: string, tag: string): Promise<ReleaseType> {
+  const commits = await getCommitsSince(git, tag, dir);
+  if (commits.some((commit) => commit.breaking)) {
+    return 'major';
+  }
+  return commits.some((commit) => commit.type === 'feat') ? 'minor' : 'patch';
+}
+
+/**
+ * Check whether a package depends on any of the packages being released
+ *
+ * @param manifest - the manifest of the package
+ * @param releases - the packages being released by name
+ * @returns true if it depends on any of them
+ */
+function dependsOnAny(manifest: Record<string, any>, releases: Map<string, WorkspaceRelease>): boolean {
+  return RUNTIME_DEPENDENCY_FIELDS.some((field) =>
+    Object.keys(manifest[field] ?? {}).some((dependency) => releases.has(dependency))
+  );
+}
+
+/**
+ * Update the range of a dependency so that it refers to a new version. Simple
+ * ranges keep their operator while any other range is only replaced if the new
+ * version no longer satisfies it.
+ *
+ * @param range - the range of the dependency
+ * @param versionNum - the new version of the dependency
+ * @returns the updated range
+ */
+function updateRange(range: string, versionNum: string): string {
+  if (range.startsWith(WORKSPACE_PROTOCOL)) {
+    // The aliases for the workspace version are resolved by yarn when packing
+    const workspaceRange = range.slice(WORKSPACE_PROTOCOL.length);
+    return ['*', '^', '~', ''].includes(workspaceRange)
+      ? range
+      : `${WORKSPACE_PROTOCOL}${updateRange(workspaceRange, versionNum)}`;
+  }
+
+  // Other protocols, eg: `file:` or `npm:`, are left alone
+  if (/^[a-z]+:/i.test(range)) {
+    return range;
+  }
+
+  const simple = /^([\^~=]?)v?\d+\.\d+\.\d+(?:[-+][0-9A-Za-z.+-]*)?$/.exec(range);
+  if (simple !== null) {
+    return `${simple[1]}${versionNum}`;
+  }
+  try {
+    return satisfies(versionNum, range) ? range : `^${versionNum}`;
+  } catch {
+    // Not a range that can be understood
+    return range;
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Support for reading the resolved dependency tree from a `yarn.lock`, in
+ * either the format of yarn classic or the YAML format of yarn berry.
+ */
+import { readFile } from 'fs/promises';
+
+/**
+ * A package resolved by the lockfile
+ */
+export interface LockedPackage {
+  // The name of the package and the version it resolved to
+  name: string;
+  version: string;
+
+  // The descriptors that resolved to this package, eg: `minimist@^1.2.0`
+  descriptors: string[];
+
+  // The dependencies of the package and their ranges
+  dependencies: Record<string, string>;
+
+  // True if this is a workspace of a yarn berry monorepo rather than a package
+  // that is installed
+  workspace: boolean;
+}
+
+/**
+ * The resolved dependency tree of a project
+ */
+export interface DependencyTree {
+  // The packages that are installed
+  packages: LockedPackage[];
+
+  // The packages that each package is a dependency of
+  dependents: Map<LockedPackage, Set<LockedPackage>>;
+
+  // The packages that the project or its workspaces depend on directly
+  direct: Set<LockedPackage>;
+}
+
+/**
+ * Read the resolved dependency tree from a lockfile
+ *
+ * @param file - the lockfile
+ * @param manifest - the manifest of the project, which gives its direct
+ * dependencies
+ * @returns the dependency tree
+ */
+export async function readDependencyTree(file: string, manifest: Record<string, any>): Promise<DependencyTree> {
+  let text: string;
+  try {
+    text = await readFile(file, 'utf8');
+  } catch (err) {
+    throw new Error(`Failed to read ${file}: ${err}`);
+  }
+  return getDependencyTree(parseYarnLock(text), manifest);
+}
+
+/**
+ * Parse a `yarn.lock`, where each entry lists the descriptors it resolves,
+ * followed by indented fields and lists of dependencies
+ *
+ * @param text - the contents of the lockfile
+ * @returns the packages it resolves
+ */
+export function parseYarnLock(text: string): LockedPackage[] {
+  const packages: LockedPackage[] = [];
+  let current: LockedPackage | undefined;
+  let dependencies: Record<string, string> | undefined;
+
+  for (const line of text.split(/\r?\n/)) {
+    const content = line.trim();
+    if (content === '' || content.startsWith('#')) {
+      continue;
+    }
+
+    const indent = line.length - line.trimStart().length;
+    if (indent === 0) {
+      // The metadata of yarn berry's lockfile is not a package
+      dependencies = undefined;
+      current = undefined;
+      if (content !== '__metadata:') {
+        const descriptors = content
+          .replace(/:$/, '')
+          .replace(/"/g, '')
+          .split(',')
+          .map((descriptor) => descriptor.trim());
+        current = {
+          name: getDescriptorName(descriptors[0]),
+          version: '',
+          descriptors,
+          dependencies: {},
+          workspace: descriptors.some((descriptor) => descriptor.includes('@workspace:')),
+        };
+        packages.push(current);
+      }
+    } else if (current !== undefined && indent <= 2) {
+      const [key, value] = parseField(content);
+      dependencies = ['dependencies', 'optionalDependencies'].includes(key) ? current.dependencies : undefined;
+      if (key === 'version') {
+        current.version = value;
+      }
+    } else if (dependencies !== undefined) {
+      const [key, value] = parseField(content);
+      dependencies[key] = value;
+    }
+  }
+  return packages.filter((pkg) => pkg.version !== '');
+}
+
+/**
+ * Link the packages resolved by a lockfile into a dependency tree
+ *
+ * @param packages - the packages resolved by the lockfile
+ * @param manifest - the manifest of the project
+ * @returns the dependency tree
+ */
+export function getDependencyTree(packages: LockedPackage[], manifest: Record<string, any>): DependencyTree {
+  const byDescriptor = new Map<string, LockedPackage>();
+  for (const pkg of packages) {
+    for (const descriptor of pkg.descriptors) {
+      byDescriptor.set(descriptor, pkg);
+    }
+  }
+
+  // yarn berry adds the `npm:` protocol to the descriptors of its entries but
+  // not to the ranges of the dependencies
+  const resolve = (name: string, range: string) =>
+    byDescriptor.get(`${name}@${range}`) ?? byDescriptor.get(`${name}@npm:${range}`);
+
+  const tree: DependencyTree = {
+    packages: packages.filter((pkg) => !pkg.workspace),
+    dependents: new Map(),
+    direct: new Set(),
+  };
+  for (const pkg of packages) {
+    for (const [name, range] of Object.entries(pkg.dependencies)) {
+      const dependency = resolve(name, range);
+      if (dependency === undefined || dependency.workspace) {
+        continue;
+      }
+
+      if (pkg.workspace) {
+        tree.direct.add(dependency);
+      } else {
+        const dependents = tree.dependents.get(dependency) ?? new Set();
+        tree.dependents.set(dependency, dependents.add(pkg));
+      }
+    }
+  }
+
+  for (const field of ['dependencies', 'devDependencies', 'optionalDependencies']) {
+    for (const [name, range] of Object.entries<string>(manifest[field] ?? {})) {
+      const dependency = resolve(name, range);
+      if (dependency !== undefined) {
+        tree.direct.add(dependency);
+      }
+    }
+  }
+  return tree;
+}
+
+/**
+ * Find the dependency paths through which a package is installed, eg:
+ * `a>b>module`, starting from either a direct dependency or a package that
+ * nothing depends on, such as a dependency of a workspace
+ *
+ * @param tree - the dependency tree
+ * @param pkg - the package
+ * @param limit - the most paths to find
+ * @returns the paths
+ */
+export function findDependencyPaths(tree: DependencyTree, pkg: LockedPackage, limit = 100): string[] {
+  const paths: string[] = [];
+  const walk = (current: LockedPackage, path: string[], seen: Set<LockedPackage>) => {
+    if (paths.length >= limit) {
+      return;
+    }
+
+    const dependents = [...(tree.dependents.get(current) ?? [])].filter((dependent) => !seen.has(dependent));
+    if (tree.direct.has(current) || dependents.length === 0) {
+      paths.push([current.name, ...path].join('>'));
+    }
+    for (const dependent of dependents) {
+      walk(dependent, [current.name, ...path], new Set([...seen, current]));
+    }
+  };
+
+  walk(pkg, [], new Set());
+  return paths;
+}
+
+/**
+ * Get the name of the package from a descriptor, eg: `@scope/name@^1.0.0`
+ *
+ * @param descriptor - the descriptor
+ * @returns the name of the package
+ */
+function getDescriptorName(descriptor: string): string {
+  const separator = descriptor.indexOf('@', 1);
+  return separator < 0 ? descriptor : descriptor.slice(0, separator);
+}
+
+/**
+ * Parse a field of an entry, which is either `key "value"` for yarn classic
+ * or `key: value` for yarn berry, where either may be quoted
+ *
+ * @param content - the content of the line
+ * @returns the key and value
+ */
+function parseField(content: string): [string, string] {
+  const match = /^("[^"]*"|[^\s:"]+):?\s*(.*)$/.exec(content);
+  if (match === null) {
+    return [content, ''];
+  }
+  const unquote = (text: string) => text.replace(/^"(.*)"$/, '$1');
+  return [unquote(match[1]), unquote(match[2])];
+}
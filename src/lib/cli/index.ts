@@ -1,2 +1,4 @@
+export * from './Git';
 export * from './SubCommand';
 export * from './SubCommandHelpers';
+export * from './Version';
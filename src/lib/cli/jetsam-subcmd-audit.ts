@@ -1,27 +1,42 @@
 import { Arguments, Argv } from 'yargs';
 import chalk from 'chalk';
+import { readFile } from 'fs/promises';
 
-import { executeCmd } from './SubCommandHelpers';
+import {
+  DEFAULT_ADVISORY_REGISTRY,
+  fetchAdvisoryDatabase,
+  loadAdvisoryDatabase,
+  writeAdvisoryDatabase,
+} from './AdvisoryDatabase';
+import {
+  Advisory,
+  applyAuditIgnore,
+  auditDependencyTree,
+  compareSeverity,
+  loadAuditIgnore,
+  printAuditIgnoreReport,
+  printAuditReport,
+  runAudit,
+  SEVERITIES,
+  Severity,
+} from './Audit';
+import {
+  BaselineComparison,
+  compareWithBaseline,
+  loadAuditBaseline,
+  printBaselineReport,
+  writeAuditBaseline,
+} from './AuditBaseline';
+import { parseReportRequest, REPORT_FORMATS, writeAuditReport } from './AuditReports';
+import { detectPackageManager, PACKAGE_MANAGERS, PackageManager } from './PackageManager';
+import { loadProjectConfig } from './ProjectConfig';
+import { readDependencyTree } from './YarnLock';
 import { SubCommand } from './SubCommand';
 
-// These are the severities that `yarn audit` can return
-type Severity = 'info' | 'low' | 'moderate' | 'high' | 'critical';
-
-// `yarn audit` uses an exit status that is a bit-mask where a bit is set if an
-// issue with a given serverity is found. These are the bits that are used to
-// indicate each severity.
-// prettier-ignore
-const YarnAuditSeverityBits: { [severity in Severity]: number } = {
-  info:     0x01,
-  low:      0x02,
-  moderate: 0x04,
-  high:     0x08,
-  critical: 0x0f
-};
-
 /**
- * Essentially a wrapper around `yarn audit` to show all audit issues but only
- * exit with a non-zero exit status for issues at or above a given severity.
+ * Essentially a wrapper around the audit command of the package manager, eg:
+ * `yarn audit`, to show all audit issues but only exit with a non-zero exit
+ * status for issues at or above a given severity.
  */
 class AuditDependencies extends SubCommand {
   /**
@@ -52,10 +67,11 @@ class AuditDependencies extends SubCommand {
   public configure(): (yargs: Argv) => Argv {
     return (yargs: Argv) =>
       yargs
+        .command('update-database', 'Update the advisory database used by --offline from the registry')
         .option('level', {
           alias: 'l',
           description: 'Only issues at this severity or higher or shown',
-          choices: Object.keys(YarnAuditSeverityBits),
+          choices: SEVERITIES,
         })
         .option('json', {
           alias: 'j',
@@ -65,7 +81,40 @@ class AuditDependencies extends SubCommand {
         .option('minimum', {
           alias: 'm',
           description: 'The audit only fails for issues at this severity or higher',
-          choices: Object.keys(YarnAuditSeverityBits),
+          choices: SEVERITIES,
+        })
+        .option('package-manager', {
+          description: 'The package manager to audit with, detected from package.json or the lockfile by default',
+          choices: PACKAGE_MANAGERS,
+        })
+        .option('report', {
+          alias: 'r',
+          description: `Also write the results to a report given as <format>:<path>, where format is one of ${REPORT_FORMATS.join(
+            ', '
+          )}`,
+          type: 'array',
+        })
+        .option('baseline', {
+          alias: 'b',
+          description: 'Only fail for advisories that are not in this baseline file',
+          type: 'string',
+        })
+        .option('update-baseline', {
+          description: 'Write the advisories found to the baseline file rather than comparing with it',
+          type: 'boolean',
+          implies: 'baseline',
+        })
+        .option('offline', {
+          description: 'Audit the packages in yarn.lock against the advisory database rather than the registry',
+          type: 'boolean',
+        })
+        .option('database', {
+          description: 'The advisory database used by --offline, defaults to the audit.database setting',
+          type: 'string',
+        })
+        .option('registry', {
+          description: `The registry that update-database takes advisories from, defaults to ${DEFAULT_ADVISORY_REGISTRY}`,
+          type: 'string',
         });
   }
 
@@ -77,35 +126,142 @@ class AuditDependencies extends SubCommand {
    * @returns the exit status to use for `jetsam`
    */
   public async execute(args: Arguments): Promise<number> {
-    // Some options we support are just proxied on to `yarn audit`
-    const yarnArgs: string[] = ['audit'];
-    if (args.level !== undefined) {
-      yarnArgs.push('--level', args.level as string);
+    try {
+      const exitStatus = await this.executeImpl(args);
+      return exitStatus;
+    } catch (err) {
+      console.error(`Error: Failed to audit dependencies: ${err instanceof Error ? err.message : err}`);
+      return 1;
+    }
+  }
+
+  /**
+   * Implementation of the `audit` sub-command
+   *
+   * @param args - the command-line arguments
+   * @returns the exit status to use for `jetsam`
+   */
+  private async executeImpl(args: Arguments): Promise<number> {
+    const { ignoreFile, database } = (await loadProjectConfig()).audit;
+    const databaseFile = (args.database as string | undefined) ?? database;
+    if (args._[0] === 'update-database') {
+      return this.updateDatabase(databaseFile, args.registry as string | undefined);
+    }
+
+    const reports = ((args.report as string[] | undefined) ?? []).map((report) => parseReportRequest(String(report)));
+    const entries = await loadAuditIgnore(ignoreFile);
+    const baselineFile = args.baseline as string | undefined;
+    const baseline =
+      baselineFile === undefined || args.updateBaseline === true ? undefined : await loadAuditBaseline(baselineFile);
+
+    // The advisories accepted by the ignore file are suppressed, then only the
+    // issues at or above the level are shown and can fail the audit
+    const level = (args.level as Severity | undefined) ?? 'info';
+    const packageManager = (args.packageManager as PackageManager | undefined) ?? (await detectPackageManager());
+    const found = args.offline === true ? await this.auditOffline(databaseFile) : await runAudit(packageManager);
+    const result = applyAuditIgnore(found, entries);
+    const isShown = (advisory: Advisory) => compareSeverity(advisory.severity, level) >= 0;
+    const advisories = result.advisories.filter(isShown);
+
+    // The baseline records every advisory that has not been suppressed, so it
+    // does not depend on the level
+    if (args.updateBaseline === true) {
+      await writeAuditBaseline(baselineFile as string, result.advisories);
+      // eslint-disable-next-line no-console
+      console.log(`Updated ${baselineFile} with ${result.advisories.length} advisories`);
+      return 0;
     }
+
     if (args.json) {
-      yarnArgs.push('--json');
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify(advisories, null, 2));
+    } else {
+      printAuditReport(advisories);
     }
+    printAuditIgnoreReport(result, ignoreFile, args.json !== true);
 
-    // Run `yarn audit` and get back its exit status
-    let exitStatus = await executeCmd('yarn', ...yarnArgs);
-
-    // If there are any issues (ie: exit status is non-zero) and a minimum
-    // severity was provided then see if they can be suppressed.
-    const minSeverity = args.minimum as Severity;
-    if (minSeverity !== undefined && exitStatus > 0) {
-      // Convert the string severity into its corresponding bit
-      const minStatusBit = YarnAuditSeverityBits[minSeverity];
-
-      // And see if we can suppress these issues
-      if (minStatusBit !== undefined && exitStatus < minStatusBit) {
-        // All issues are below the threshold so we can ignore them
-        // eslint-disable-next-line no-console
-        console.log(`${chalk.green('Info')}: Ignoring issues found below severity "${minSeverity}" as requested`);
-        exitStatus = 0;
+    // Only the advisories that are not in the baseline can fail the audit
+    let comparison: BaselineComparison | undefined;
+    if (baseline !== undefined) {
+      const all = compareWithBaseline(result.advisories, baseline);
+      comparison = { ...all, added: all.added.filter(isShown), known: all.known.filter(isShown) };
+      if (!args.json) {
+        printBaselineReport(comparison, baselineFile as string);
       }
     }
 
-    return exitStatus;
+    // The audit fails if there are any issues at or above the minimum severity
+    const minSeverity = (args.minimum as Severity | undefined) ?? 'info';
+    const failures = (comparison?.added ?? advisories).filter(
+      (advisory) => compareSeverity(advisory.severity, minSeverity) >= 0
+    );
+    if (failures.length === 0 && advisories.length > 0 && comparison === undefined && !args.json) {
+      // All issues are below the threshold so we can ignore them
+      // eslint-disable-next-line no-console
+      console.log(`${chalk.green('Info')}: Ignoring issues found below severity "${minSeverity}" as requested`);
+    }
+
+    for (const report of reports) {
+      await writeAuditReport(report, {
+        advisories,
+        minimum: minSeverity,
+        suppressed: result.suppressed,
+        expired: result.expired,
+        baseline: comparison,
+        manifestFile: 'package.json',
+      });
+    }
+
+    // An expired entry fails the audit so that the advisory is reconsidered
+    return failures.length === 0 && result.expired.length === 0 ? 0 : 1;
+  }
+
+  /**
+   * Audit the packages in `yarn.lock` against the advisory database, warning
+   * of any that were not checked when the database was updated
+   *
+   * @param file - the advisory database
+   * @returns the advisories found
+   */
+  private async auditOffline(file: string): Promise<Advisory[]> {
+    const database = await loadAdvisoryDatabase(file);
+    const manifest = JSON.parse(await readFile('package.json', 'utf8'));
+    const { advisories, unchecked } = auditDependencyTree(await readDependencyTree('yarn.lock', manifest), database);
+
+    if (unchecked.length > 0) {
+      const packages = unchecked.map((pkg) => `${pkg.name}@${pkg.version}`);
+      console.error(
+        `${chalk.yellow('Warning')}: ${packages.length} packages in yarn.lock were not checked when ${file} ` +
+          `was updated on ${database.updated}, use "jetsam audit update-database" to update it: ${packages.join(', ')}`
+      );
+    }
+    return advisories;
+  }
+
+  /**
+   * Update the advisory database with the advisories for the packages in
+   * `yarn.lock` from the registry
+   *
+   * @param file - the advisory database
+   * @param registry - the URL of the registry or undefined for the default
+   * @returns the exit status to use for `jetsam`
+   */
+  private async updateDatabase(file: string, registry = DEFAULT_ADVISORY_REGISTRY): Promise<number> {
+    const manifest = JSON.parse(await readFile('package.json', 'utf8'));
+    const packages: Record<string, string[]> = {};
+    for (const pkg of (await readDependencyTree('yarn.lock', manifest)).packages) {
+      packages[pkg.name] = [...new Set([...(packages[pkg.name] ?? []), pkg.version])];
+    }
+
+    const database = await fetchAdvisoryDatabase(packages, registry);
+    await writeAdvisoryDatabase(file, database);
+
+    const count = Object.values(database.advisories).reduce((total, advisories) => total + advisories.length, 0);
+    // eslint-disable-next-line no-console
+    console.log(
+      `Updated ${file} with ${count} advisories for ${Object.keys(packages).length} packages from ${registry}`
+    );
+    return 0;
   }
 }
 
@@ -1,15 +1,31 @@
-import { copy } from 'fs-extra';
-import klaw from 'klaw';
+import chalk from 'chalk';
+import { FSWatcher, watch } from 'fs';
+import { chmod, readFile, writeFile } from 'fs/promises';
 import mkdirp from 'mkdirp';
 import path from 'path';
 import { Argv, Arguments } from 'yargs';
 
-import { isExistingDir, isExistingPath, filterFile, findFiles } from './SubCommandHelpers';
+import { CopyRule, getSourceDirs, hasShebang, parseCopyRule, syncDistFiles } from './DistFiles';
+import {
+  checkDistManifest,
+  DistManifestEntry,
+  getContentsEntry,
+  getDistManifestFile,
+  loadDistManifest,
+  writeDistManifest,
+} from './DistManifest';
+import { getBinTargets, transformManifest } from './PackageManifest';
+import { DistConfig, loadProjectConfig } from './ProjectConfig';
+import { isExistingFile } from './SubCommandHelpers';
 import { SubCommand } from './SubCommand';
 
 // A standard set of files to always copy to the distribution if they exist
 const STANDARD_FILES = ['CHANGELOG.md', 'LICENSE', 'README.md', '.npmignore'];
 
+// How long to wait for changes to settle, in milliseconds, before the
+// distribution is updated when watching
+const WATCH_DELAY = 200;
+
 /**
  * A `jetsam` sub-command that is used to copy auxiliary files into the
  * distribution of the package that is being built.
@@ -50,9 +66,30 @@ class BuildDistribution extends SubCommand {
         })
         .option('files', {
           alias: 'f',
-          description: 'Files to copy in addition to the standard files',
+          description:
+            'Files to copy in addition to the standard files, as <source> or <source>:<dest> where source may be a glob',
+          type: 'array',
+        })
+        .option('exclude', {
+          alias: 'x',
+          description: 'Glob patterns of files and directories not to copy',
           type: 'array',
         })
+        .option('keep-paths', {
+          description: 'Copy files with their paths relative to the project rather than to the source',
+          type: 'boolean',
+        })
+        .option('check', {
+          alias: 'c',
+          description:
+            'Check that the output directory matches the manifest of what was written rather than building it',
+          type: 'boolean',
+        })
+        .option('watch', {
+          alias: 'w',
+          description: 'Keep copying changes into the output directory as they are made',
+          type: 'boolean',
+        })
         .option('src', {
           alias: 's',
           description: 'Directory containing the source files',
@@ -68,108 +105,316 @@ class BuildDistribution extends SubCommand {
    * @returns the exit status to use for `jetsam`
    */
   public async execute(args: Arguments): Promise<number> {
+    try {
+      const exitStatus = await this.executeImpl(args);
+      return exitStatus;
+    } catch (err) {
+      console.error(`Error: Failed to build the distribution: ${err instanceof Error ? err.message : err}`);
+      return 1;
+    }
+  }
+
+  /**
+   * Implementation of the `build-dist` sub-command
+   *
+   * @param args - the command-line arguments
+   * @returns the exit status to use for `jetsam`
+   */
+  private async executeImpl(args: Arguments): Promise<number> {
     // Ensure the output directory exists
     const srcDir = args.src as string;
     const outDir = args.out as string;
+    if (args.check === true) {
+      return this.check(outDir);
+    }
     await mkdirp(outDir);
 
-    await this.copyPackageManifest(outDir);
-    await this.copyAuxiliaryFiles((args.files as string[]) ?? [], outDir);
-    await this.copyConfigFiles(srcDir, outDir);
-    await this.copyScripts(srcDir, outDir);
+    const exclude = ((args.exclude as string[] | undefined) ?? []).map(String);
+    const rules: CopyRule[] = [
+      ...this.getAuxiliaryRules(((args.files as string[]) ?? []).map(String), args.keepPaths === true),
+      this.getConfigRule(srcDir),
+      ...this.getScriptRules(srcDir, (await loadProjectConfig()).dist),
+    ];
+    const { entries } = await this.update(rules, outDir, exclude, (await loadDistManifest(outDir)) ?? []);
+
+    return args.watch === true ? this.watch(rules, outDir, exclude, entries) : 0;
+  }
+
+  /**
+   * Called to bring the distribution area up to date, only writing the files
+   * that have changed since they were recorded in its manifest, and then to
+   * record the files now in the distribution
+   *
+   * @param rules - the rules for the files to copy
+   * @param dstRoot - the directory where files are to be copied to
+   * @param exclude - glob patterns of the files not to copy
+   * @param previous - the files in the manifest of the distribution
+   * @returns the files now in the distribution, along with those that were
+   * updated and removed
+   */
+  private async update(
+    rules: CopyRule[],
+    dstRoot: string,
+    exclude: string[],
+    previous: DistManifestEntry[]
+  ): Promise<{ entries: DistManifestEntry[]; updated: string[]; removed: string[] }> {
+    const manifest = await this.copyPackageManifest(dstRoot, previous);
+    const result = await syncDistFiles(
+      rules,
+      dstRoot,
+      exclude,
+      previous.filter((entry) => entry.path !== manifest.entry.path)
+    );
+    await this.makeBinsExecutable(dstRoot);
+
+    const entries = [manifest.entry, ...result.entries];
+    await writeDistManifest(dstRoot, entries);
 
+    const updated = result.copied.map(({ src, dst }) => `Copied ${src} to ${dst}`);
+    if (manifest.written) {
+      updated.unshift(`Wrote ${path.join(dstRoot, manifest.entry.path)}`);
+    }
+    return { entries, updated, removed: result.removed };
+  }
+
+  /**
+   * Called to check that the distribution area matches its manifest
+   *
+   * @param dstRoot - the directory where files are copied to
+   * @returns the exit status to use for `jetsam`
+   */
+  private async check(dstRoot: string): Promise<number> {
+    const file = getDistManifestFile(dstRoot);
+    const entries = await loadDistManifest(dstRoot);
+    if (entries === undefined) {
+      throw new Error(`There is no manifest ${file} for ${dstRoot}, run "jetsam build-dist" to create it`);
+    }
+
+    const problems = await checkDistManifest(dstRoot, entries);
+    if (problems.length > 0) {
+      console.error(`Error: ${dstRoot} does not match ${file}:\n  ${problems.join('\n  ')}`);
+      return 1;
+    }
+    // eslint-disable-next-line no-console
+    console.log(`${chalk.green('Info')}: The ${entries.length} files in ${dstRoot} match ${file}`);
     return 0;
   }
 
   /**
-   * Called `package.json` into the distribution area after passing it through a
-   * filter.
+   * Called to write `package.json` into the distribution area with its paths
+   * relative to the distribution and only the fields that are to be kept
    *
-   * @param dstoot - the directory where files are to be copied to
-   * @returns a promise resolved when complete
+   * @param dstRoot - the directory where files are to be copied to
+   * @param previous - the files in the manifest of the distribution
+   * @returns the entry for `package.json` in the manifest and whether it was
+   * written rather than unchanged
    */
-  private async copyPackageManifest(dstRoot: string): Promise<void> {
+  private async copyPackageManifest(
+    dstRoot: string,
+    previous: DistManifestEntry[]
+  ): Promise<{ entry: DistManifestEntry; written: boolean }> {
     const file = 'package.json';
     const dst = path.join(dstRoot, file);
 
-    // Remove all /dist references in the file
-    await filterFile(file, dst, (c: string): string => c.replace(/dist\//gm, ''));
+    const { dist } = await loadProjectConfig(file);
+    const manifest = transformManifest(JSON.parse(await readFile(file, 'utf8')), dstRoot, dist);
+    const contents = JSON.stringify(manifest, null, 2) + '\n';
+    const entry = getContentsEntry(contents, file);
+
+    const unchanged = previous.some(({ path, sha256 }) => path === file && sha256 === entry.sha256);
+    if (unchanged && (await isExistingFile(dst))) {
+      return { entry, written: false };
+    }
+    await writeFile(dst, contents, 'utf8');
+    return { entry, written: true };
   }
 
   /**
-   * Called to auxiliary files to the distribution area
+   * Called to get the rules for copying the auxiliary files to the
+   * distribution area
    *
-   * @param files - the additional files to copy
-   * @param dstoot - the directory where files are to be copied to
-   * @returns a promise resolved when complete
+   * @param files - the additional files to copy, given as `<source>` or
+   * `<source>:<dest>` where the source may be a glob pattern
+   * @param keepPaths - whether the files keep their paths relative to the
+   * project
+   * @returns the rules
    */
-  private async copyAuxiliaryFiles(files: string[], dstRoot: string): Promise<void> {
-    // Include the standard auxiliary files to
-    const allFiles: string[] = [...files, ...STANDARD_FILES];
-    for (const file of allFiles) {
-      if (await isExistingPath(file)) {
-        const dst = path.normalize(path.join(dstRoot, path.basename(file)));
-        await copy(file, dst, { overwrite: true, preserveTimestamps: true });
-      }
-    }
+  private getAuxiliaryRules(files: string[], keepPaths: boolean): CopyRule[] {
+    // Include the standard auxiliary files too, which are replaced by any of
+    // the additional files copied to the same place
+    return [
+      ...STANDARD_FILES.map((file) => ({ source: file })),
+      ...files.map((file) => parseCopyRule(file, keepPaths)),
+    ];
   }
 
   /**
-   * Called to copy the configuration source
+   * Called to get the rule for copying the configuration source
    *
    * @param srcRoot - the directory containing the source files
-   * @param dstoot - the directory where files are to be copied to
-   * @returns a promise resolved when complete
+   * @returns the rule
    */
-  private async copyConfigFiles(srcRoot: string, dstRoot: string): Promise<void> {
-    const srcDir = path.resolve(path.join(srcRoot, 'config'));
-    const dstDir = path.join(dstRoot, 'config');
-    if (!(await isExistingDir(srcDir))) {
-      // No configuration to copy
-      return;
-    }
-
+  private getConfigRule(srcRoot: string): CopyRule {
     // Copy each file found in the config source tree to the destination
-    for await (const entry of klaw(srcDir)) {
-      // Only interested in files
-      if (entry.stats.isFile()) {
-        const fileOffset = entry.path.replace(srcDir, '');
-        const dst = path.join(dstDir, fileOffset);
-        await copy(entry.path, dst, { overwrite: true, preserveTimestamps: true });
-      }
-    }
+    return { source: path.join(srcRoot, 'config', '**'), dest: 'config' };
   }
 
   /**
-   * Called to copy the scripts into the distribution area
+   * Called to get the rules for copying the scripts into the distribution area
    *
    * @param srcRoot - the directory containing the source files
-   * @param dstoot - the directory where files are to be copied to
+   * @param config - the patterns, extensions and mode of the scripts
+   * @returns the rules
+   */
+  private getScriptRules(srcRoot: string, config: DistConfig): CopyRule[] {
+    const { scripts, scriptExtensions, scriptMode } = config;
+    const rename = (name: string) => {
+      const extension = scriptExtensions.find((ext) => name.endsWith(ext) && name !== ext);
+      return extension === undefined ? name : name.slice(0, -extension.length);
+    };
+
+    // Copy the scripts matching each pattern under the bin source tree into
+    // the same place under bin
+    return scripts.map((pattern) => ({
+      source: path.join(srcRoot, 'bin', pattern),
+      dest: 'bin',
+      base: path.join(srcRoot, 'bin'),
+      rename,
+      scriptMode: parseInt(scriptMode, 8),
+    }));
+  }
+
+  /**
+   * Called to make sure that the target of each `bin` entry in the manifest of
+   * the distribution is in the distribution area, and to make it executable,
+   * warning of those that cannot be run as they have no shebang
+   *
+   * @param dstRoot - the directory where files are to be copied to
    * @returns a promise resolved when complete
    */
-  private async copyScripts(srcRoot: string, dstRoot: string): Promise<void> {
-    const srcDir = path.resolve(path.join(srcRoot, 'bin'));
-    const dstDir = path.join(dstRoot, 'bin');
-    if (!(await isExistingDir(srcDir))) {
-      // No configuration to copy
-      return;
-    }
+  private async makeBinsExecutable(dstRoot: string): Promise<void> {
+    const { scriptMode } = (await loadProjectConfig()).dist;
+    const manifest = JSON.parse(await readFile(path.join(dstRoot, 'package.json'), 'utf8'));
 
-    // Find any shell scripts under the given source root
-    const scripts: string[] = await findFiles(srcDir, (entry) => {
-      return entry.stats.isFile() && /\.sh$/.test(entry.path);
-    });
-    if (scripts.length < 1) {
-      return;
+    const missing: string[] = [];
+    const unrunnable: string[] = [];
+    for (const target of getBinTargets(manifest)) {
+      const file = path.join(dstRoot, target);
+      if (await isExistingFile(file)) {
+        await chmod(file, parseInt(scriptMode, 8));
+        if (!(await hasShebang(file))) {
+          unrunnable.push(target);
+        }
+      } else {
+        missing.push(target);
+      }
+    }
+    if (missing.length > 0) {
+      throw new Error(`The bin targets in package.json are not in ${dstRoot}: ${missing.join(', ')}`);
     }
 
-    // And copy each file into the distribution
-    await mkdirp(dstDir);
-    for (const file of scripts) {
-      const dstFile = path.join(dstDir, path.basename(file).replace(/\.sh$/, ''));
-      await copy(file, dstFile, { overwrite: true, preserveTimestamps: true });
+    // A target without a shebang cannot be run as a command, although it may
+    // still be run with node
+    if (unrunnable.length > 0) {
+      console.error(
+        `${chalk.yellow('Warning')}: The bin targets in package.json do not start with a shebang, eg: ` +
+          `#!/usr/bin/env node: ${unrunnable.join(', ')}`
+      );
     }
   }
+
+  /**
+   * Called to keep the distribution area up to date as the files copied into
+   * it, and `package.json`, change until interrupted
+   *
+   * @param rules - the rules for the files to copy
+   * @param dstRoot - the directory where files are to be copied to
+   * @param exclude - glob patterns of the files not to copy
+   * @param written - the files that have already been written
+   * @returns the exit status to use for `jetsam` once interrupted
+   */
+  private async watch(
+    rules: CopyRule[],
+    dstRoot: string,
+    exclude: string[],
+    written: DistManifestEntry[]
+  ): Promise<number> {
+    const output = path.resolve(dstRoot);
+    const watchers = new Map<string, FSWatcher>();
+    let entries = written;
+    let timer: NodeJS.Timeout | undefined;
+    let updating = Promise.resolve();
+
+    // Watch the project directory, for package.json, and every directory that
+    // files are copied from, which changes as directories are added or removed
+    const watchDirs = async () => {
+      const dirs = new Set(['.', ...(await getSourceDirs(rules, dstRoot))]);
+      for (const [dir, watcher] of watchers) {
+        if (!dirs.has(dir)) {
+          watcher.close();
+          watchers.delete(dir);
+        }
+      }
+      for (const dir of dirs) {
+        if (!watchers.has(dir)) {
+          const watcher = watch(dir, (_, filename) => {
+            // Changes made to the distribution area are not of interest
+            const changed = filename ? path.resolve(dir, filename.toString()) : output;
+            if (changed !== output && !changed.startsWith(`${output}${path.sep}`)) {
+              schedule();
+            }
+          });
+          // The directory has been removed, which the next update will notice
+          watcher.on('error', () => watcher.close());
+          watchers.set(dir, watcher);
+        }
+      }
+    };
+
+    const update = async () => {
+      try {
+        const result = await this.update(rules, dstRoot, exclude, entries);
+        entries = result.entries;
+        for (const message of result.updated) {
+          // eslint-disable-next-line no-console
+          console.log(message);
+        }
+        for (const file of result.removed) {
+          // eslint-disable-next-line no-console
+          console.log(`Removed ${file}`);
+        }
+        await watchDirs();
+      } catch (err) {
+        console.error(`Error: Failed to update the distribution: ${err instanceof Error ? err.message : err}`);
+      }
+    };
+
+    // A change usually raises several events, such as when an editor saves a
+    // file, so the update is made once they have settled
+    const schedule = () => {
+      if (timer !== undefined) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(() => {
+        updating = updating.then(update);
+      }, WATCH_DELAY);
+    };
+
+    await watchDirs();
+    // eslint-disable-next-line no-console
+    console.log(`${chalk.green('Info')}: Watching for changes to copy into ${dstRoot}, press Ctrl-C to stop`);
+
+    return new Promise((resolve) => {
+      process.once('SIGINT', async () => {
+        if (timer !== undefined) {
+          clearTimeout(timer);
+        }
+        watchers.forEach((watcher) => watcher.close());
+        await updating;
+        resolve(0);
+      });
+    });
+  }
 }
 
 export default new BuildDistribution();
@@ -0,0 +1,140 @@
+import { readFile } from 'fs/promises';
+import { Arguments, Argv } from 'yargs';
+
+import { findPreviousVersionTag, formatSection, getCommitsSince, hasSection, writeSection } from './Changelog';
+import { Git } from './Git';
+import { describeReleaseBranch, loadProjectConfig, parseReleaseBranch } from './ProjectConfig';
+import { isExistingFile } from './SubCommandHelpers';
+import { SubCommand } from './SubCommand';
+
+/**
+ * A `jetsam` sub-command that is used to maintain the CHANGELOG of a package.
+ */
+class ManageChangelog extends SubCommand {
+  /**
+   * Get the name of the sub-command to be passed to `jetsam`
+   *
+   * @returns the name of the sub-command
+   */
+  public name(): string {
+    return 'changelog';
+  }
+
+  /**
+   * Provides a description of the sub-command that will appear in the help
+   *
+   * @returns a description of what the sub-command does
+   */
+  public description(): string {
+    return 'Maintain the CHANGELOG for the package';
+  }
+
+  /**
+   * Called to get a function that will be invoked to add the required
+   * configuration to `yargs`. The function will be passed a `yargs` argv
+   * instance that it can use to configure the command-line it supports.
+   *
+   * @returns the function to call to configure the sub-command
+   */
+  public configure(): (yargs: Argv) => Argv {
+    return (yargs: Argv) =>
+      yargs
+        .command('generate', 'Generate the section for a version from the commits since the previous release', (y) =>
+          y
+            .option('version-number', {
+              alias: 'v',
+              description: 'The version to generate the section for, defaults to that of the release branch',
+              type: 'string',
+            })
+            .option('from', {
+              description: 'The tag to collect commits from, defaults to the previous version tag',
+              type: 'string',
+            })
+            .option('file', {
+              description: 'The CHANGELOG file to update',
+              default: 'CHANGELOG.md',
+            })
+            .option('force', {
+              description: 'Replace the section for the version if it already exists',
+              type: 'boolean',
+            })
+            .option('dry-run', {
+              alias: 'd',
+              description: 'Print the section rather than writing it to the CHANGELOG',
+              type: 'boolean',
+            })
+        )
+        .demandCommand(1);
+  }
+
+  /**
+   * Called to execute the sub-command given the command-line arguments passed
+   * to `jetsam`.
+   *
+   * @param args - the command-line arguments
+   * @returns the exit status to use for `jetsam`
+   */
+  public async execute(args: Arguments): Promise<number> {
+    const action = args._[0];
+    try {
+      switch (action) {
+        case 'generate':
+          return await this.generate(args);
+        default:
+          console.error(`Error: ${action}: Unknown changelog action requested`);
+          return 1;
+      }
+    } catch (err) {
+      console.error(`Error: Failed to ${action} CHANGELOG: ${err}`);
+      return 1;
+    }
+  }
+
+  /**
+   * Generate the CHANGELOG section for a version
+   *
+   * @param args - the command-line arguments
+   * @returns the exit status to use for `jetsam`
+   */
+  private async generate(args: Arguments): Promise<number> {
+    const file = args.file as string;
+    const { release } = await loadProjectConfig();
+    const git = new Git();
+
+    // Default to the version of the release branch that is checked out
+    let versionNum = args.versionNumber as string | undefined;
+    if (versionNum === undefined) {
+      const branch = await git.getCurrentBranch();
+      versionNum = parseReleaseBranch(release, branch ?? '');
+      if (versionNum === undefined) {
+        console.error(
+          `Error: Branch "${branch}" does not conform to the naming convention "${describeReleaseBranch(release)}", ` +
+            'use --version-number to name the version'
+        );
+        return 1;
+      }
+    }
+
+    // Refuse to overwrite a section unless asked to
+    const changelog = (await isExistingFile(file)) ? await readFile(file, 'utf8') : '';
+    if (hasSection(changelog, versionNum) && args.force !== true && args.dryRun !== true) {
+      console.error(`Error: ${file} already contains an entry for version ${versionNum}, use --force to replace it`);
+      return 1;
+    }
+
+    const from = (args.from as string | undefined) ?? (await findPreviousVersionTag(git, release.tagPrefix));
+    const section = formatSection(versionNum, await getCommitsSince(git, from));
+    if (args.dryRun === true) {
+      // eslint-disable-next-line no-console
+      console.log(section.trimEnd());
+      return 0;
+    }
+
+    await writeSection(file, versionNum, section);
+    // eslint-disable-next-line no-console
+    console.log(`Added entry for version ${versionNum} to ${file}`);
+    return 0;
+  }
+}
+
+export default new ManageChangelog();
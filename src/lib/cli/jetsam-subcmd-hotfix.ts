@@ -0,0 +1,454 @@
+import { readFile } from 'fs/promises';
+import { Arguments, Argv } from 'yargs';
+
+import { addAnswerOptions, Answers } from './Answers';
+import { Git } from './Git';
+import {
+  describeHotfixBranch,
+  describeReleaseBranch,
+  getHotfixBranch,
+  getReleaseTag,
+  loadProjectConfig,
+  parseHotfixBranch,
+  parseReleaseBranch,
+  parseReleaseTag,
+  ProjectConfig,
+} from './ProjectConfig';
+import {
+  checkChangelogEntry,
+  checkCleanCheckout,
+  checkManifestVersion,
+  checkNotAheadOfRemote,
+  checkTagDoesNotExist,
+  getCurrentBranch,
+  runPreCommitChecks,
+} from './ReleaseChecks';
+import { createReleaseTag, readReleaseNotes } from './ReleaseNotes';
+import { banner, executeCmd } from './SubCommandHelpers';
+import { SubCommand } from './SubCommand';
+import { Version } from './Version';
+
+// The ways a hotfix can be carried forward into the active release branch
+const FORWARD_MODES = ['merge', 'cherry-pick', 'none'];
+
+// The subject of commits made when bumping the version
+const VERSION_BUMP_REGEX = /^Bump version to /;
+
+/**
+ * A `jetsam` sub-command that is used to patch a version that has already been
+ * released.
+ */
+class CreateHotfix extends SubCommand {
+  // The answers to the questions asked during the hotfix
+  private answers = new Answers();
+
+  // The configuration of the project being patched
+  private config!: ProjectConfig;
+
+  // The repository of the project being patched
+  private git = new Git();
+
+  /**
+   * Get the name of the sub-command to be passed to `jetsam`
+   *
+   * @returns the name of the sub-command
+   */
+  public name(): string {
+    return 'hotfix';
+  }
+
+  /**
+   * Provides a description of the sub-command that will appear in the help
+   *
+   * @returns a description of what the sub-command does
+   */
+  public description(): string {
+    return 'Creates a hotfix release of a previously released version';
+  }
+
+  /**
+   * Called to get a function that will be invoked to add the required
+   * configuration to `yargs`. The function will be passed a `yargs` argv
+   * instance that it can use to configure the command-line it supports.
+   *
+   * @returns the function to call to configure the sub-command
+   */
+  public configure(): (yargs: Argv) => Argv {
+    return (yargs: Argv) =>
+      addAnswerOptions(yargs)
+        .command('start <from>', 'Create a hotfix branch from the tag of a released version', (y) =>
+          y.positional('from', {
+            description: 'The release tag or version to patch, eg: v1.2.3',
+            type: 'string',
+          })
+        )
+        .command('finish', 'Check and tag the hotfix on the current hotfix branch', (y) =>
+          y
+            .option('ignore-changelog', {
+              description: 'Do not enforce an entry for the version in the CHANGELOG',
+              type: 'boolean',
+            })
+            .option('forward', {
+              description: 'How to carry the fix forward into the active release branch',
+              choices: FORWARD_MODES,
+            })
+        )
+        .demandCommand(1);
+  }
+
+  /**
+   * Called to execute the sub-command given the command-line arguments passed
+   * to `jetsam`.
+   *
+   * @param args - the command-line arguments
+   * @returns the exit status to use for `jetsam`
+   */
+  public async execute(args: Arguments): Promise<number> {
+    const action = args._[0];
+    try {
+      this.answers = await Answers.fromArgs(args, { forward: args.forward });
+      this.config = await loadProjectConfig();
+
+      switch (action) {
+        case 'start':
+          return await this.start(args);
+        case 'finish':
+          return await this.finish(args);
+        default:
+          console.error(`Error: ${action}: Unknown hotfix action requested`);
+          return 1;
+      }
+    } catch (err) {
+      console.error(`Error: Failed to ${action} hotfix: ${err}`);
+      return 1;
+    }
+  }
+
+  /**
+   * Create the branch for a hotfix of a released version and bump its version
+   *
+   * @param args - the command-line arguments
+   * @returns the exit status to use for `jetsam`
+   */
+  private async start(args: Arguments): Promise<number> {
+    const { release } = this.config;
+    const from = String(args.from);
+
+    // Accept either the release tag or the version number
+    const baseVersionNum = parseReleaseTag(release, from) ?? Version.tryParse(from)?.toString();
+    if (baseVersionNum === undefined) {
+      console.error(`Error: "${from}" is neither a release tag nor a version`);
+      return 1;
+    }
+
+    const baseVersion = Version.parse(baseVersionNum);
+    if (baseVersion.isPrerelease) {
+      console.error(`Error: Hotfixes can only be made from a release, not the pre-release ${baseVersionNum}`);
+      return 1;
+    }
+
+    // The version being patched must have been released
+    const baseTag = getReleaseTag(release, baseVersionNum);
+    if (!(await this.git.tagExists(baseTag))) {
+      console.error(`Error: The release tag "${baseTag}" does not exist`);
+      return 1;
+    }
+
+    // And the hotfix version must not have been
+    const versionNum = baseVersion.inc('patch').toString();
+    const version = getReleaseTag(release, versionNum);
+    if (!(await checkTagDoesNotExist(this.git, version)) || !(await checkCleanCheckout(this.git))) {
+      return 1;
+    }
+
+    // Make sure the hotfix branch does not exist locally or on the remote
+    const branch = getHotfixBranch(release, versionNum);
+    if (await this.git.branchExists(branch)) {
+      console.error(`Error: The hotfix branch "${branch}" already exists`);
+      return 1;
+    }
+    if (await this.git.remoteBranchExists(release.remote, branch)) {
+      console.error(`Error: The hotfix branch "${branch}" already exists on ${release.remote}`);
+      return 1;
+    }
+
+    banner(`Creating hotfix branch ${branch} from ${baseTag}`);
+    await this.git.createBranch(branch, baseTag);
+
+    // Bump the version number for the hotfix branch
+    const exitStatus = await executeCmd(
+      'yarn',
+      'version',
+      '--no-git-tag-version',
+      '--no-commit-hooks',
+      '--new-version',
+      versionNum
+    );
+    if (exitStatus !== 0) {
+      console.error(`Error: Failed to update package version to ${versionNum}`);
+      return exitStatus;
+    }
+
+    await this.git.commit(`Bump version to ${versionNum}`, ['package.json']);
+
+    if (!(await this.answers.confirm('push', `Pushing new branch "${branch}" to ${release.remote} ... continue`))) {
+      // eslint-disable-next-line no-console
+      console.log('Aborting hotfix procedure');
+      return 1;
+    }
+
+    await this.git.pushUpstream(release.remote, branch);
+
+    // eslint-disable-next-line no-console
+    console.log(`Created hotfix branch ${branch}, commit the fix and then run "jetsam hotfix finish"`);
+    return 0;
+  }
+
+  /**
+   * Check and tag the hotfix on the current branch and optionally carry it
+   * forward into the active release branch
+   *
+   * @param args - the command-line arguments
+   * @returns the exit status to use for `jetsam`
+   */
+  private async finish(args: Arguments): Promise<number> {
+    const { release } = this.config;
+    const { remote } = release;
+
+    const branch = await getCurrentBranch(this.git);
+    if (branch === undefined) {
+      return 1;
+    }
+
+    const versionNum = parseHotfixBranch(release, branch);
+    if (versionNum === undefined) {
+      console.error(
+        `Error: Branch "${branch}" does not conform to the naming convention "${describeHotfixBranch(release)}"`
+      );
+      return 1;
+    }
+
+    // The same checks are made as for a release
+    const version = getReleaseTag(release, versionNum);
+    if (
+      !(await checkTagDoesNotExist(this.git, version)) ||
+      !(await checkCleanCheckout(this.git)) ||
+      !(await checkNotAheadOfRemote(this.git, remote, branch))
+    ) {
+      return 1;
+    }
+
+    banner(`Updating local branch ${branch} from ${remote}`);
+    await this.git.pull(remote, branch);
+
+    if ((await checkManifestVersion(versionNum)) === undefined) {
+      return 1;
+    }
+    if (args.ignoreChangelog !== true && !(await checkChangelogEntry(versionNum))) {
+      return 1;
+    }
+
+    banner(`Checking version ${version} passes pre-commit checks`);
+    let exitStatus = await runPreCommitChecks(branch);
+    if (exitStatus !== 0) {
+      return exitStatus;
+    }
+
+    // Tag the hotfix where it is, it is not merged into the target branch
+    if (!(await this.answers.confirm('tag', `Tagging hotfix "${version}" ... continue`))) {
+      // eslint-disable-next-line no-console
+      console.log('Aborting hotfix procedure');
+      return 1;
+    }
+
+    banner(`Tagging hotfix ${version}`);
+    await createReleaseTag(this.git, version, await readReleaseNotes(versionNum), release.signTags);
+    await this.git.push(remote, version);
+
+    const forward = await this.answers.getInput(
+      'forward',
+      'How should the fix be carried forward into the active release branch',
+      FORWARD_MODES,
+      'none'
+    );
+    if (forward !== 'none') {
+      exitStatus = await this.forwardFix(version, forward);
+      if (exitStatus !== 0) {
+        return exitStatus;
+      }
+    }
+
+    // eslint-disable-next-line no-console
+    console.log(`Successfully created hotfix ${version}`);
+    return 0;
+  }
+
+  /**
+   * Carry a hotfix forward into the active release branch, that is, the
+   * release branch on the remote with the highest version
+   *
+   * @param version - the tag of the hotfix
+   * @param mode - either `merge` or `cherry-pick`
+   * @returns the exit status of the operation
+   */
+  private async forwardFix(version: string, mode: string): Promise<number> {
+    const { release } = this.config;
+    const { remote } = release;
+
+    const releaseBranch = await this.findActiveReleaseBranch();
+    if (releaseBranch === undefined) {
+      // eslint-disable-next-line no-console
+      console.log(`There is no "${describeReleaseBranch(release)}" branch on ${remote} to carry the fix forward into`);
+      return 0;
+    }
+
+    banner(`Carrying hotfix ${version} forward into ${releaseBranch}`);
+    await this.git.checkout(releaseBranch);
+    await this.git.pull(remote, releaseBranch);
+
+    const releaseVersionNum = JSON.parse(await readFile('package.json', 'utf8')).version;
+    const exitStatus =
+      mode === 'cherry-pick'
+        ? await this.cherryPickFix(version, releaseBranch)
+        : await this.mergeFix(version, releaseBranch, releaseVersionNum);
+    if (exitStatus !== 0) {
+      return exitStatus;
+    }
+
+    const prompt = `Pushing ${releaseBranch} to ${remote} ... continue`;
+    if (!(await this.answers.confirm('push-forward', prompt))) {
+      // eslint-disable-next-line no-console
+      console.log(`Not pushing ${releaseBranch}, it will need to be pushed manually`);
+      return 0;
+    }
+
+    await this.git.push(remote, releaseBranch);
+    return 0;
+  }
+
+  /**
+   * Cherry-pick the commits of a hotfix, except its version bump, onto the
+   * release branch that is checked out
+   *
+   * @param version - the tag of the hotfix
+   * @param releaseBranch - the release branch
+   * @returns the exit status of the operation
+   */
+  private async cherryPickFix(version: string, releaseBranch: string): Promise<number> {
+    // The commits that are in the hotfix but not in the release branch
+    const log = await this.git.log('%H %s', [`HEAD..${version}`], { merges: false, reverse: true });
+    const commits = log
+      .split('\n')
+      .filter((line) => line !== '')
+      .map((line) => /^(\S+) (.*)$/.exec(line) as RegExpExecArray)
+      .filter((match) => !VERSION_BUMP_REGEX.test(match[2]))
+      .map((match) => match[1]);
+    if (commits.length === 0) {
+      // eslint-disable-next-line no-console
+      console.log(`There are no commits in hotfix ${version} to cherry-pick`);
+      return 0;
+    }
+
+    try {
+      await this.git.cherryPick(commits);
+    } catch {
+      console.error(`Error: Failed to cherry-pick hotfix ${version} onto ${releaseBranch}`);
+      console.error(`Error: Resolve the conflicts, run "git cherry-pick --continue" and push ${releaseBranch}`);
+      return 1;
+    }
+    return 0;
+  }
+
+  /**
+   * Merge a hotfix into the release branch that is checked out, keeping the
+   * version of the release branch
+   *
+   * @param version - the tag of the hotfix
+   * @param releaseBranch - the release branch
+   * @param releaseVersionNum - the version of the release branch
+   * @returns the exit status of the operation
+   */
+  private async mergeFix(version: string, releaseBranch: string, releaseVersionNum: string): Promise<number> {
+    const merged = await this.git.merge(version, false);
+    if (!merged && !(await this.resolveVersionConflict(version))) {
+      console.error(`Error: Failed to merge hotfix ${version} into ${releaseBranch}`);
+      console.error(
+        `Error: Resolve the conflicts keeping version ${releaseVersionNum} in package.json, ` +
+          `commit and push ${releaseBranch}`
+      );
+      return 1;
+    }
+
+    // The merge must not change the version of the release branch
+    const manifest = JSON.parse(await readFile('package.json', 'utf8'));
+    if (manifest.version !== releaseVersionNum) {
+      const exitStatus = await executeCmd(
+        'yarn',
+        'version',
+        '--no-git-tag-version',
+        '--no-commit-hooks',
+        '--new-version',
+        releaseVersionNum
+      );
+      if (exitStatus !== 0) {
+        console.error(`Error: Failed to restore the version of ${releaseBranch} to ${releaseVersionNum}`);
+        return exitStatus;
+      }
+      await this.git.add('package.json');
+    }
+
+    await this.git.commit(undefined);
+    return 0;
+  }
+
+  /**
+   * Resolve a merge conflict in package.json that is only due to the hotfix
+   * bumping the version, by keeping the version of the release branch
+   *
+   * @param version - the tag of the hotfix
+   * @returns true if the conflict was resolved and no others remain
+   */
+  private async resolveVersionConflict(version: string): Promise<boolean> {
+    const conflicts = await this.git.getConflictedFiles();
+    if (conflicts.length !== 1 || conflicts[0] !== 'package.json') {
+      return false;
+    }
+
+    // Ignoring the version, the hotfix must not have changed package.json
+    const base = await this.git.getMergeBase('HEAD', version);
+    const readManifest = async (rev: string) => {
+      const manifest = JSON.parse(await this.git.showFile(rev, 'package.json'));
+      delete manifest.version;
+      return JSON.stringify(manifest);
+    };
+    if ((await readManifest(base)) !== (await readManifest(version))) {
+      return false;
+    }
+
+    await this.git.checkoutOurs('package.json');
+    await this.git.add('package.json');
+    return true;
+  }
+
+  /**
+   * Find the release branch on the remote with the highest version
+   *
+   * @returns the name of the branch or undefined if there are none
+   */
+  private async findActiveReleaseBranch(): Promise<string | undefined> {
+    const { release } = this.config;
+    let active: { branch: string; version: Version } | undefined;
+    for (const branch of await this.git.listRemoteBranches(release.remote)) {
+      const versionNum = parseReleaseBranch(release, branch);
+      if (versionNum !== undefined) {
+        const version = Version.parse(versionNum);
+        if (active === undefined || version.compare(active.version) > 0) {
+          active = { branch, version };
+        }
+      }
+    }
+    return active?.branch;
+  }
+}
+
+export default new CreateHotfix();
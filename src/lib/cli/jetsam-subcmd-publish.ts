@@ -0,0 +1,129 @@
+import { readFile } from 'fs/promises';
+import { Arguments, Argv } from 'yargs';
+
+import { addAnswerOptions, Answers } from './Answers';
+import { Git } from './Git';
+import { loadProjectConfig } from './ProjectConfig';
+import { findLatestBundle, getBundlePath, readBundleMetadata } from './ReleaseBundle';
+import { checkNotPublished, describeRegistry, getRegistry, publishBundle } from './ReleasePublish';
+import { ReleaseState } from './ReleaseState';
+import { isExistingFile } from './SubCommandHelpers';
+import { SubCommand } from './SubCommand';
+
+/**
+ * A `jetsam` sub-command that is used to publish a release bundle built by
+ * `jetsam release` to an npm registry.
+ */
+class PublishRelease extends SubCommand {
+  /**
+   * Get the name of the sub-command to be passed to `jetsam`
+   *
+   * @returns the name of the sub-command
+   */
+  public name(): string {
+    return 'publish';
+  }
+
+  /**
+   * Provides a description of the sub-command that will appear in the help
+   *
+   * @returns a description of what the sub-command does
+   */
+  public description(): string {
+    return 'Publishes a release bundle to an npm registry';
+  }
+
+  /**
+   * Called to get a function that will be invoked to add the required
+   * configuration to `yargs`. The function will be passed a `yargs` argv
+   * instance that it can use to configure the command-line it supports.
+   *
+   * @returns the function to call to configure the sub-command
+   */
+  public configure(): (yargs: Argv) => Argv {
+    return (yargs: Argv) =>
+      addAnswerOptions(yargs)
+        .option('bundle', {
+          alias: 'b',
+          description:
+            'The release bundle to publish, defaults to that of the release in progress or the one built most recently',
+          type: 'string',
+        })
+        .option('registry', {
+          description: 'The URL of the registry to publish to, eg: a local registry for testing',
+          type: 'string',
+        })
+        .option('dist-tag', {
+          description: 'The npm dist-tag to publish with, defaults to that recorded for the bundle',
+          type: 'string',
+        })
+        .option('dry-run', {
+          alias: 'd',
+          description: 'Report what would be published without publishing it',
+          type: 'boolean',
+        });
+  }
+
+  /**
+   * Called to execute the sub-command given the command-line arguments passed
+   * to `jetsam`.
+   *
+   * @param args - the command-line arguments
+   * @returns the exit status to use for `jetsam`
+   */
+  public async execute(args: Arguments): Promise<number> {
+    try {
+      const answers = await Answers.fromArgs(args);
+      const config = await loadProjectConfig();
+
+      // The bundle defaults to the one for the release in progress, otherwise
+      // the one built most recently, as once a release is complete the version
+      // in package.json is that of the next release
+      let bundle = args.bundle as string | undefined;
+      if (bundle === undefined) {
+        const manifest = JSON.parse(await readFile('package.json', 'utf8'));
+        const state = await ReleaseState.load(new Git());
+        bundle =
+          state !== null
+            ? getBundlePath(config.release, manifest.name, state.version)
+            : await findLatestBundle(config.release, manifest.name);
+        if (bundle === undefined) {
+          console.error(`Error: There are no release bundles for ${manifest.name} in ${config.release.bundleDir}`);
+          return 1;
+        }
+      }
+      if (!(await isExistingFile(bundle))) {
+        console.error(`Error: The release bundle ${bundle} does not exist`);
+        return 1;
+      }
+
+      const metadata = await readBundleMetadata(bundle);
+      if (metadata === undefined) {
+        console.error(`Error: The release bundle ${bundle} has no metadata, it must be built by "jetsam release"`);
+        return 1;
+      }
+
+      const registry = getRegistry(config.publish, args.registry as string | undefined);
+      const distTag = (args.distTag as string | undefined) ?? metadata.distTag;
+      const { name, version } = metadata;
+      if (!(await checkNotPublished(name, version, registry))) {
+        return 1;
+      }
+
+      const where = describeRegistry(registry);
+      const prompt = `Publishing ${name}@${version} to ${where} with dist-tag "${distTag}" ... continue`;
+      if (args.dryRun !== true && !(await answers.confirm('publish', prompt))) {
+        // eslint-disable-next-line no-console
+        console.log('Aborting publish');
+        return 1;
+      }
+
+      return await publishBundle(bundle, distTag, config.publish, registry, args.dryRun === true);
+    } catch (err) {
+      console.error(`Error: Failed to publish release bundle: ${err}`);
+      return 1;
+    }
+  }
+}
+
+export default new PublishRelease();
@@ -0,0 +1,137 @@
+import { execFile } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { Arguments } from 'yargs';
+
+import { Git } from './Git';
+import release from './jetsam-subcmd-release';
+import { PlannedStep } from './ReleasePlan';
+import { ReleaseState } from './ReleaseState';
+import { isExistingDir } from './SubCommandHelpers';
+
+const execFileAsync = promisify(execFile);
+
+describe('jetsam release --dry-run', () => {
+  const cwd = process.cwd();
+  let root: string;
+  let log: jest.SpyInstance;
+  let error: jest.SpyInstance;
+
+  // Run git in the checkout to set up the release branch
+  const git = async (...args: string[]) => (await execFileAsync('git', args)).stdout.trim();
+
+  // Commit a change to a file in the checkout
+  const commitFile = async (file: string, contents: string, message: string) => {
+    await writeFile(file, contents);
+    await git('add', file);
+    await git('commit', '--quiet', '--message', message);
+  };
+
+  // The arguments given to the sub-command for a dry-run
+  const args = { _: [], $0: 'jetsam', dryRun: true, format: 'json', publish: false } as Arguments;
+
+  // The release branch for 1.0.0 checked out and pushed along with master
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(os.tmpdir(), 'jetsam-release-'));
+    process.chdir(root);
+    await git('init', '--quiet', '--bare', '--initial-branch=master', 'remote.git');
+    await git('init', '--quiet', '--initial-branch=master', 'work');
+    process.chdir('work');
+    for (const [name, value] of [
+      ['user.name', 'Jetsam'],
+      ['user.email', 'jetsam@example.com'],
+      ['commit.gpgSign', 'false'],
+      ['tag.gpgSign', 'false'],
+    ]) {
+      await git('config', name, value);
+    }
+    await git('remote', 'add', 'origin', path.join(root, 'remote.git'));
+    await commitFile('package.json', JSON.stringify({ name: 'pkg', version: '1.0.0' }), 'Initial commit');
+    await git('checkout', '--quiet', '-b', 'release/v1.0.0');
+    await commitFile('CHANGELOG.md', '# Changelog\n\n## 1.0.0\n\n- First release\n', 'Add CHANGELOG');
+    await git('push', '--quiet', 'origin', 'master', 'release/v1.0.0');
+
+    log = jest.spyOn(console, 'log').mockImplementation();
+    error = jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(async () => {
+    log.mockRestore();
+    error.mockRestore();
+    process.chdir(cwd);
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('still makes the checks of the release', async () => {
+    await writeFile('CHANGELOG.md', '# Changelog\n');
+    expect(await release.execute(args)).toBe(1);
+    expect(error).toHaveBeenCalledWith(expect.stringMatching(/^Error: .*CHANGELOG\.md/s));
+    expect(log).not.toHaveBeenCalled();
+  });
+
+  it('outputs the plan of the release without changing the repository', async () => {
+    const head = await git('rev-parse', 'HEAD');
+    expect(await release.execute(args)).toBe(0);
+    expect(error).not.toHaveBeenCalled();
+
+    const plan = JSON.parse(log.mock.calls[log.mock.calls.length - 1][0]);
+    expect(plan.version).toBe('v1.0.0');
+    expect(plan.details).toEqual({
+      branch: 'release/v1.0.0',
+      tag: 'v1.0.0',
+      targetBranch: 'master',
+      bundles: [path.join('releases', 'pkg-v1.0.0.tgz')],
+      nextVersion: 'v1.1.0',
+      nextBranch: 'release/v1.1.0',
+    });
+
+    // The commands that would change the repository are planned in place of
+    // being run
+    const commands = Object.fromEntries(
+      (plan.steps as PlannedStep[]).map(({ name, actions }) => [
+        name,
+        actions.flatMap(({ command }) => (command === undefined ? [] : [command.join(' ')])),
+      ])
+    );
+    expect(commands).toEqual({
+      prepare: [],
+      'update-branch': ['git checkout release/v1.0.0', 'git pull --rebase origin release/v1.0.0'],
+      changelog: [],
+      'plan-workspaces': [],
+      'bump-workspaces': [],
+      'check-manifest': [],
+      'pre-commit': ['yarn --cwd . pre-commit'],
+      'update-target': ['git checkout master', 'git pull --rebase origin master'],
+      merge: ['git merge --no-ff --no-edit release/v1.0.0'],
+      'post-merge-checks': ['yarn --cwd . pre-commit'],
+      bundle: [`yarn --cwd dist pack --filename ${path.join('releases', 'pkg-v1.0.0.tgz')}`],
+      'verify-pack': [],
+      'release-notes': [],
+      push: ['git push origin master'],
+      tag: [
+        'git tag --annotate --cleanup=verbatim --message v1.0.0\n\n- First release\n v1.0.0',
+        'git push origin v1.0.0',
+      ],
+      publish: [],
+      'plan-next-release': [],
+      'create-next-branch': [
+        'git checkout -b release/v1.1.0',
+        'yarn version --no-git-tag-version --no-commit-hooks --new-version 1.1.0',
+        'git commit --message Bump version to 1.1.0 -- package.json',
+        'git push --set-upstream origin release/v1.1.0',
+      ],
+    });
+
+    // Nothing has been changed or saved
+    const repo = new Git();
+    expect(await repo.getCurrentBranch()).toBe('release/v1.0.0');
+    expect(await repo.getCommit('HEAD')).toBe(head);
+    expect(await repo.getCommit('master')).toBe(await repo.getCommit('origin/master'));
+    expect(await repo.listTags('*')).toEqual([]);
+    expect(await repo.branchExists('release/v1.1.0')).toBe(false);
+    expect(await ReleaseState.load(repo)).toBeNull();
+    expect(await isExistingDir('releases')).toBe(false);
+  });
+});
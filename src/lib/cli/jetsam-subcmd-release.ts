@@ -1,15 +1,149 @@
+import chalk from 'chalk';
 import { readFile } from 'fs/promises';
 import mkdirp from 'mkdirp';
 import path from 'path';
 import { Arguments, Argv } from 'yargs';
 
-import { confirm, getInput, executeCmd, executeCmdSilently, getOutputFromCmd } from './SubCommandHelpers';
+import { findPreviousVersionTag, formatSection, getCommitsSince, hasSection, writeSection } from './Changelog';
+import { addAnswerOptions, Answers } from './Answers';
+import { Git } from './Git';
+import {
+  describeReleaseBranch,
+  getReleaseBranch,
+  getReleaseTag,
+  loadProjectConfig,
+  parseReleaseBranch,
+  parseReleaseTag,
+  ProjectConfig,
+} from './ProjectConfig';
+import {
+  checkChangelogEntry,
+  checkCleanCheckout,
+  checkManifestVersion,
+  checkNotAheadOfRemote,
+  checkTagDoesNotExist,
+  getCurrentBranch,
+  getPreCommitCommand,
+  runPreCommitChecks,
+} from './ReleaseChecks';
+import { banner, executeCmd, isExistingDir, isExistingFile } from './SubCommandHelpers';
+import {
+  getBundlePath,
+  getDistTag,
+  getReleaseNotesPath,
+  getWorkspaceBundlePath,
+  writeBundleMetadata,
+} from './ReleaseBundle';
+import { createReleaseTag, readReleaseNotes, writeReleaseNotes } from './ReleaseNotes';
+import { inspectPack, printPackReport } from './PackVerification';
+import { ReleasePlan } from './ReleasePlan';
+import { checkNotPublished, describeRegistry, getPublishCommand, getRegistry, publishBundle } from './ReleasePublish';
+import { planRollback } from './ReleaseRollback';
+import { ReleaseState, ReleaseStepStatus } from './ReleaseState';
 import { SubCommand } from './SubCommand';
+import { ReleaseType, Version } from './Version';
+import {
+  applyWorkspaceRelease,
+  findWorkspacePackages,
+  getWorkspacePatterns,
+  planWorkspaceRelease,
+  WorkspaceRelease,
+} from './Workspaces';
+
+// The types of release that can follow this one
+const NEXT_RELEASE_TYPES = ['major', 'minor', 'patch', 'premajor', 'preminor', 'prerelease', 'none'];
+
+// The types of release of a package in a monorepo that is versioned independently
+const WORKSPACE_RELEASE_TYPES = ['major', 'minor', 'patch', 'premajor', 'preminor', 'prepatch', 'prerelease'];
+
+// The formats in which the plan of a dry-run can be output
+const PLAN_FORMATS = ['text', 'json'];
+
+/**
+ * The values determined for a release that are shared between its steps. This
+ * is persisted along with the release state so it must be serialisable.
+ */
+interface ReleaseContext {
+  // The release branch and the version being released from it
+  branch: string;
+  versionNum: string;
+  version: string;
+
+  // Whether the version being released is a pre-release
+  prerelease: boolean;
+
+  // Whether the CHANGELOG entry for the version is not to be enforced
+  ignoreChangelog: boolean;
+
+  // Whether the CHANGELOG entry is to be generated from the commit history
+  generateChangelog: boolean;
+
+  // Whether the release bundle is to be published and the registry to use
+  publish: boolean;
+  registry?: string;
+
+  // The name of the package being released and whether it is private
+  packageName?: string;
+  packagePrivate?: boolean;
+
+  // The packages being released from a monorepo, if it is one, and whether
+  // their versions have been updated
+  workspaces?: WorkspaceRelease[];
+  workspacesBumped?: boolean;
+
+  // The type and number of the next release if a branch is to be created for it
+  nextReleaseType?: string;
+  nextVersionNum?: string;
+}
+
+/**
+ * A named step of the release procedure
+ */
+interface ReleaseStep {
+  // The name of the step as shown in the release status
+  name: string;
+
+  // A description of what the step does
+  description: string;
+
+  // Performs the step returning the exit status
+  run: (context: ReleaseContext) => Promise<number>;
+}
+
+/**
+ * A bundle built by the release
+ */
+interface PlannedBundle {
+  // The directory that is packed and the bundle it is packed into
+  packDir: string;
+  bundle: string;
+
+  // The package in the bundle, its version and the tag it is released with
+  name: string;
+  versionNum: string;
+  tag: string;
+  prerelease: boolean;
+}
 
 /**
  * A `jetsam` sub-command that is used to release a package.
  */
 class PerformRelease extends SubCommand {
+  // The answers to the questions asked during the release
+  private answers = new Answers();
+
+  // The configuration of the project being released
+  private config!: ProjectConfig;
+
+  // The repository being released
+  private git = new Git();
+
+  // The pre-release identifier given on the command-line, if any
+  private preid?: string;
+
+  // The plan recorded on a dry-run in place of changing the repository
+  private plan?: ReleasePlan;
+
   /**
    * Get the name of the sub-command to be passed to `jetsam`
    *
@@ -37,15 +171,62 @@ class PerformRelease extends SubCommand {
    */
   public configure(): (yargs: Argv) => Argv {
     return (yargs: Argv) =>
-      yargs
+      addAnswerOptions(yargs)
+        .command('rollback [release]', 'Undo what has been done by a partially completed release', (y) =>
+          y.positional('release', {
+            description: 'The release tag or version to roll back, defaults to that of the release in progress',
+            type: 'string',
+          })
+        )
         .option('dry-run', {
           alias: 'd',
-          description: 'Perform a dry-run of the release',
+          description: 'Perform the checks of the release and output the plan of what it would do',
           type: 'boolean',
         })
+        .option('format', {
+          description: 'The format of the plan output by a dry-run',
+          choices: PLAN_FORMATS,
+          default: 'text',
+        })
         .option('ignore-changelog', {
           description: 'Do not enforce an entry for the version in the CHANGELOG',
           type: 'boolean',
+        })
+        .option('generate-changelog', {
+          description: 'Generate the CHANGELOG entry for the version from the commits if it does not have one',
+          type: 'boolean',
+          conflicts: ['ignore-changelog'],
+        })
+        .option('resume', {
+          description: 'Resume the release in progress from the step that failed',
+          type: 'boolean',
+          conflicts: ['dry-run', 'status', 'abandon'],
+        })
+        .option('status', {
+          description: 'Show the status of each step of the release in progress',
+          type: 'boolean',
+          conflicts: ['dry-run', 'abandon'],
+        })
+        .option('abandon', {
+          description: 'Abandon the release in progress, discarding its saved state',
+          type: 'boolean',
+          conflicts: ['dry-run'],
+        })
+        .option('publish', {
+          description: 'Publish the release bundle, defaults to the publish.onRelease setting',
+          type: 'boolean',
+        })
+        .option('registry', {
+          description: 'The URL of the registry to publish to, eg: a local registry for testing',
+          type: 'string',
+        })
+        .option('next-release', {
+          description: 'The type of the next release, answering the "next-release" question',
+          choices: NEXT_RELEASE_TYPES,
+        })
+        .option('preid', {
+          description: 'The identifier used when the next release is a pre-release, eg: rc',
+          type: 'string',
         });
   }
 
@@ -73,256 +254,1027 @@ class PerformRelease extends SubCommand {
    * @returns the exit status to use for `jetsam`
    */
   private async executeImpl(args: Arguments): Promise<number> {
+    // A dry-run never prompts, taking the default answer to each question
     const dryRun = args.dryRun === true;
-    const ignoreChangelog = args.ignoreChangelog === true;
+    this.answers = await Answers.fromArgs(
+      { ...args, yes: args.yes === true || (dryRun && args._[0] !== 'rollback') },
+      { 'next-release': args.nextRelease }
+    );
+    this.config = await loadProjectConfig();
+    this.preid = args.preid as string | undefined;
 
-    // Get the current branch name and make sure it is a release branch
-    const branch = await getOutputFromCmd('git', 'branch', '--show-current');
-    if (branch === undefined) {
-      console.error('Error: Failed to get the git branch name');
-      return 1;
+    if (args.status === true) {
+      return this.showStatus();
     }
 
-    // Make sure it conforms to the required format
-    const match = /^release\/v(\d+\.\d+\.\d+)$/.exec(branch);
-    if (match === null) {
-      console.error(`Error: Branch "${branch}" does not conform to the naming convention "release/vX.Y.Z"`);
-      return 1;
+    if (args.abandon === true) {
+      return this.abandon();
     }
 
-    // Make sure this version tag does not already exist. This command will
-    // succeed if the tag exists and fail if it does not.
-    const versionNum = match[1];
-    const version = `v${versionNum}`;
-    let exitStatus = await executeCmdSilently('git', 'rev-parse', '--verify', '--quiet', version);
-    if (exitStatus === 0) {
-      console.error(`Error: The release tag "${version}" already exists`);
-      return 1;
+    if (args._[0] === 'rollback') {
+      return this.rollback(args, dryRun);
     }
 
-    // Make sure the checkout is clean, that is, no versioned controlled files
-    // are currently modified.
-    const modifiedFiles = await getOutputFromCmd(
-      'git',
-      'diff-index',
-      '--name-only',
-      '--ignore-submodules',
-      'HEAD',
-      '--'
-    );
-    if (modifiedFiles === undefined) {
-      console.error('Error: Failed to determine if the checkout is clean');
-      return 1;
+    // Pick up the release in progress if resuming
+    let state = await ReleaseState.load(this.git);
+    if (args.resume === true) {
+      if (state === null) {
+        console.error('Error: There is no release in progress to resume');
+        return 1;
+      }
+
+      if (!(await this.confirm('resume', `Do you wish to resume the release of version "${state.version}"`))) {
+        // eslint-disable-next-line no-console
+        console.log('Aborting release procedure');
+        return 1;
+      }
+      return this.performSteps(state, dryRun);
     }
 
-    if (modifiedFiles !== '') {
-      const fileList = modifiedFiles.replace(/^/gm, '  - ');
-      console.error(`Error: The checkout is not clean with at least one modified file:\n${fileList}\n`);
+    // Otherwise a new release is being started and only one can be in progress
+    if (state !== null && !dryRun) {
+      console.error(
+        `Error: The release of version "${state.version}" is already in progress, ` +
+          'use --resume to continue it or --abandon to discard it'
+      );
       return 1;
     }
 
-    // Make sure that the local branch is not ahead of the origin
-    const numCommitsAhead = await getOutputFromCmd(
-      'git',
-      'rev-list',
-      `HEAD...origin/${branch}`,
-      '--ignore-submodules',
-      '--count'
-    );
-    if (numCommitsAhead === undefined) {
-      console.error('Error: Failed to determine if the local checkout is ahead of the origin');
+    // Check that a release can be made from the current checkout
+    const context = await this.prepare(args);
+    if (context === undefined) {
       return 1;
     }
 
-    // It must be zero commits ahead. Note that it will be string '0'.
-    if (numCommitsAhead !== '0') {
-      console.error(`Error: The local branch is ${numCommitsAhead} commits ahead of the origin`);
-      return 1;
+    // From here a dry-run records the commands that change the repository
+    // rather than running them
+    if (dryRun) {
+      this.plan = new ReleasePlan(context.version);
+      this.git = new Git('.', { dryRun: (description, command) => this.plan?.addAction(description, command) });
     }
 
     // Confirm that this is the version they wish to release
-    if (!(await confirm(`Do you wish to release version "${version}"`))) {
+    if (!(await this.confirm('release', `Do you wish to release version "${context.version}"`))) {
       // eslint-disable-next-line no-console
       console.log('Aborting release procedure');
       return 1;
     }
 
-    // Make sure the local branch is up-to-date with the origin
-    if (!dryRun) {
-      this.banner(`Updating local branch ${branch} from origin`);
-      exitStatus = await executeCmd('git', 'pull', '--rebase');
+    state = await ReleaseState.create(
+      this.git,
+      context.version,
+      context,
+      this.steps().map((step) => step.name)
+    );
+    return this.performSteps(state, dryRun, args.format as string);
+  }
+
+  /**
+   * Check that a new release can be made from the current checkout and
+   * determine the values required by the release steps.
+   *
+   * @param args - the command-line arguments
+   * @returns the release context or undefined if a release cannot be made
+   */
+  private async prepare(args: Arguments): Promise<ReleaseContext | undefined> {
+    // Get the current branch name and make sure it is a release branch
+    const branch = await getCurrentBranch(this.git);
+    if (branch === undefined) {
+      return undefined;
+    }
+
+    // Make sure it conforms to the required format
+    const { release } = this.config;
+    const versionNum = parseReleaseBranch(release, branch);
+    if (versionNum === undefined) {
+      const convention = describeReleaseBranch(release);
+      console.error(`Error: Branch "${branch}" does not conform to the naming convention "${convention}"`);
+      return undefined;
+    }
+
+    // Make sure this version tag does not already exist, the checkout is clean
+    // and the local branch is not ahead of the remote
+    const version = getReleaseTag(release, versionNum);
+    if (
+      !(await checkTagDoesNotExist(this.git, version)) ||
+      !(await checkCleanCheckout(this.git)) ||
+      !(await checkNotAheadOfRemote(this.git, release.remote, branch))
+    ) {
+      return undefined;
+    }
+
+    return {
+      branch,
+      versionNum,
+      version,
+      prerelease: Version.parse(versionNum).isPrerelease,
+      ignoreChangelog: args.ignoreChangelog === true,
+      generateChangelog: args.generateChangelog === true,
+      publish: (args.publish as boolean | undefined) ?? this.config.publish.onRelease,
+      registry: getRegistry(this.config.publish, args.registry as string | undefined),
+    };
+  }
+
+  /**
+   * Get the steps of the release procedure in the order they are performed
+   *
+   * @returns the release steps
+   */
+  private steps(): ReleaseStep[] {
+    const { targetBranch, remote } = this.config.release;
+    return [
+      {
+        name: 'update-branch',
+        description: `Update the release branch from ${remote}`,
+        run: (context) => this.updateBranch(context),
+      },
+      {
+        name: 'changelog',
+        description: 'Generate the CHANGELOG entry for the version',
+        run: (context) => this.changelog(context),
+      },
+      {
+        name: 'plan-workspaces',
+        description: 'Determine the workspace packages to release and their versions',
+        run: (context) => this.planWorkspaces(context),
+      },
+      {
+        name: 'bump-workspaces',
+        description: 'Update the versions of the workspace packages being released',
+        run: (context) => this.bumpWorkspaces(context),
+      },
+      {
+        name: 'check-manifest',
+        description: 'Check package.json and the CHANGELOG match the version',
+        run: (context) => this.checkManifest(context),
+      },
+      {
+        name: 'pre-commit',
+        description: 'Run the pre-commit checks on the release branch',
+        run: (context) => this.preCommit(context),
+      },
+      {
+        name: 'update-target',
+        description: `Update ${targetBranch} from ${remote}`,
+        run: (context) => this.updateTarget(context),
+      },
+      {
+        name: 'merge',
+        description: `Merge the release branch into ${targetBranch}`,
+        run: (context) => this.merge(context),
+      },
+      {
+        name: 'post-merge-checks',
+        description: `Run the pre-commit checks on ${targetBranch} after the merge`,
+        run: (context) => this.postMergeChecks(context),
+      },
+      {
+        name: 'bundle',
+        description: 'Build the release bundle',
+        run: (context) => this.bundle(context),
+      },
+      {
+        name: 'verify-pack',
+        description: 'Verify the contents of the release bundle',
+        run: (context) => this.verifyPack(context),
+      },
+      {
+        name: 'release-notes',
+        description: 'Write the release notes from the CHANGELOG alongside the release bundle',
+        run: (context) => this.releaseNotes(context),
+      },
+      {
+        name: 'push',
+        description: `Push the merge to ${remote}`,
+        run: (context) => this.push(context),
+      },
+      {
+        name: 'tag',
+        description: `Tag the release and push the tag to ${remote}`,
+        run: (context) => this.tag(context),
+      },
+      {
+        name: 'publish',
+        description: 'Publish the release bundle to the registry',
+        run: (context) => this.publish(context),
+      },
+      {
+        name: 'plan-next-release',
+        description: 'Determine the version of the next release',
+        run: (context) => this.planNextRelease(context),
+      },
+      {
+        name: 'create-next-branch',
+        description: `Create the branch for the next release and push it to ${remote}`,
+        run: (context) => this.createNextBranch(context),
+      },
+    ];
+  }
+
+  /**
+   * Perform each of the release steps that has not already been completed,
+   * saving the progress after each step so the release can be resumed.
+   *
+   * @param state - the state of the release
+   * @param dryRun - true if this is a dry-run in which case no state is saved
+   * and the plan of the release is output
+   * @param format - the format of the plan output by a dry-run
+   * @returns the exit status to use for `jetsam`
+   */
+  private async performSteps(state: ReleaseState, dryRun: boolean, format = 'text'): Promise<number> {
+    const context = state.context as ReleaseContext;
+    for (const step of this.steps()) {
+      if (state.getStatus(step.name) === 'done') {
+        continue;
+      }
+      this.plan?.startStep(step.name, step.description);
+
+      // Make sure the step is recorded as failed even if it throws
+      let exitStatus = 1;
+      try {
+        exitStatus = await step.run(context);
+      } catch (err) {
+        console.error(`Error: ${err instanceof Error ? err.message : err}`);
+      } finally {
+        state.setStatus(step.name, exitStatus === 0 ? 'done' : 'failed');
+        if (!dryRun) {
+          await state.save();
+        }
+      }
+
       if (exitStatus !== 0) {
-        console.error(`Error: Failed to update the local branch from the origin`);
-        return exitStatus ?? 1;
+        if (dryRun) {
+          await this.printPlan(context, format);
+          console.error(`Error: Release step "${step.name}" would fail so the release cannot be made`);
+        } else {
+          console.error(
+            `Error: Release step "${step.name}" failed, use "jetsam release --resume" to continue ` +
+              'or "jetsam release rollback" to undo it'
+          );
+        }
+        return exitStatus;
       }
     }
 
-    // Read in the contens of package.json
-    let manifest: Record<string, any>;
-    try {
-      manifest = JSON.parse(await readFile('package.json', 'utf8'));
-    } catch (err) {
-      console.error(`Error: Failed to read package.json: ${err}`);
-      return 1;
+    if (dryRun) {
+      await this.printPlan(context, format);
+      return 0;
     }
 
-    // Make sure the version in package.json matches the version being released
-    if (manifest.version !== versionNum) {
-      console.error(
-        `Error: Version in package.json does not match that being released: ${manifest.version} != ${versionNum}`
+    // The release is complete so there is no longer any need for its state
+    await state.remove();
+
+    // eslint-disable-next-line no-console
+    console.log(`Successfully created release ${context.version}`);
+    return 0;
+  }
+
+  /**
+   * Output the plan recorded by a dry-run along with the values determined for
+   * the release
+   *
+   * @param context - the release context
+   * @param format - the format of the plan
+   * @returns a promise resolved when complete
+   */
+  private async printPlan(context: ReleaseContext, format: string): Promise<void> {
+    const plan = this.plan as ReleasePlan;
+    const { release } = this.config;
+    plan.setDetail('branch', context.branch);
+    plan.setDetail('tag', context.version);
+    plan.setDetail('targetBranch', release.targetBranch);
+    if (context.workspaces !== undefined && context.workspaces.length > 0) {
+      plan.setDetail(
+        'workspaceTags',
+        context.workspaces.map((pkg) => pkg.tag)
       );
+    }
+
+    // The bundles are only known once the manifest has been checked
+    if (context.packageName !== undefined) {
+      plan.setDetail(
+        'bundles',
+        (await this.getBundles(context)).map((bundle) => bundle.bundle)
+      );
+    }
+    if (context.nextVersionNum !== undefined) {
+      plan.setDetail('nextVersion', getReleaseTag(release, context.nextVersionNum));
+      plan.setDetail('nextBranch', getReleaseBranch(release, context.nextVersionNum));
+    }
+
+    // eslint-disable-next-line no-console
+    console.log(format === 'json' ? JSON.stringify(plan, null, 2) : plan.format());
+  }
+
+  /**
+   * Display the status of each step of the release in progress
+   *
+   * @returns the exit status to use for `jetsam`
+   */
+  private async showStatus(): Promise<number> {
+    const state = await ReleaseState.load(this.git);
+    if (state === null) {
+      // eslint-disable-next-line no-console
+      console.log('There is no release in progress');
+      return 0;
+    }
+
+    const colours: { [status in ReleaseStepStatus]: (text: string) => string } = {
+      pending: chalk.yellow,
+      done: chalk.green,
+      failed: chalk.red,
+    };
+
+    const steps = this.steps();
+    const width = Math.max(...steps.map((step) => step.name.length));
+    const lines = [
+      `Release of version "${state.version}" started ${state.started}, last updated ${state.updated}`,
+      ...steps.map((step) => {
+        const status = state.getStatus(step.name);
+        return `  ${colours[status](status.padEnd(7))}  ${step.name.padEnd(width)}  ${step.description}`;
+      }),
+    ];
+
+    // eslint-disable-next-line no-console
+    console.log(lines.join('\n'));
+    return 0;
+  }
+
+  /**
+   * Abandon the release in progress by discarding its state. Nothing that has
+   * already been done by the release is undone.
+   *
+   * @returns the exit status to use for `jetsam`
+   */
+  private async abandon(): Promise<number> {
+    const state = await ReleaseState.load(this.git);
+    if (state === null) {
+      console.error('Error: There is no release in progress to abandon');
       return 1;
     }
 
-    // Make sure the CHANGELOG contains an entry for this version
-    if (!ignoreChangelog) {
-      try {
-        const changelog = await readFile('CHANGELOG.md', 'utf8');
-        const regex = new RegExp(`^#+ +${versionNum}$`, 'gm');
-        if (!regex.test(changelog)) {
-          console.error(`Error: CHANGELOG does not contain an entry for version $versionNum`);
+    if (!(await this.answers.confirm('abandon', `Do you wish to abandon the release of version "${state.version}"`))) {
+      return 1;
+    }
+
+    await state.remove();
+    // eslint-disable-next-line no-console
+    console.log(`Abandoned the release of version ${state.version}`);
+    return 0;
+  }
+
+  /**
+   * Roll back a partially completed release by undoing whatever it has done
+   * locally and on the remote, confirming before acting on either.
+   *
+   * @param args - the command-line arguments
+   * @param dryRun - true if what would be done is only to be shown
+   * @returns the exit status to use for `jetsam`
+   */
+  private async rollback(args: Arguments, dryRun: boolean): Promise<number> {
+    const { release } = this.config;
+
+    // The version defaults to that of the release in progress or, failing
+    // that, the release branch that is checked out
+    const state = await ReleaseState.load(this.git);
+    let versionNum: string | undefined;
+    if (args.release !== undefined) {
+      const tag = String(args.release);
+      versionNum = parseReleaseTag(release, tag) ?? Version.tryParse(tag)?.toString();
+    } else if (state !== null) {
+      versionNum = (state.context as ReleaseContext).versionNum;
+    } else {
+      const branch = await getCurrentBranch(this.git);
+      versionNum = branch === undefined ? undefined : parseReleaseBranch(release, branch);
+    }
+    if (versionNum === undefined) {
+      console.error('Error: Unable to determine the version of the release to roll back');
+      return 1;
+    }
+
+    // The next release branch may have been created for any type of release
+    const preid = this.preid ?? release.preid;
+    const nextVersionNums = NEXT_RELEASE_TYPES.filter((type) => type !== 'none').map((type) =>
+      Version.parse(versionNum as string)
+        .inc(type as ReleaseType, preid)
+        .toString()
+    );
+    const context = state?.context as ReleaseContext | undefined;
+    if (context?.versionNum === versionNum && context.nextVersionNum !== undefined) {
+      nextVersionNums.push(context.nextVersionNum);
+    }
+
+    const version = getReleaseTag(release, versionNum);
+    banner(`Inspecting what has been done by release ${version}`);
+    const { actions, notes } = await planRollback(this.git, release, versionNum, nextVersionNums);
+    for (const note of notes) {
+      // eslint-disable-next-line no-console
+      console.log(`Note: ${note}`);
+    }
+    if (actions.length === 0) {
+      // eslint-disable-next-line no-console
+      console.log(`There is nothing to roll back for release ${version}`);
+      return 0;
+    }
+
+    const lines = actions.map(
+      (action) => `  - ${action.remote ? `[${release.remote}]` : '[local]'} ${action.description}`
+    );
+    // eslint-disable-next-line no-console
+    console.log(`Rolling back release ${version} requires:\n${lines.join('\n')}`);
+    if (dryRun) {
+      return 0;
+    }
+
+    // The local changes are undone first, then those on the remote
+    for (const remote of [false, true]) {
+      const selected = actions.filter((action) => action.remote === remote);
+      if (selected.length === 0) {
+        continue;
+      }
+
+      const where = remote ? `on ${release.remote}` : 'locally';
+      if (
+        !(await this.answers.confirm(remote ? 'rollback-remote' : 'rollback', `Undo release "${version}" ${where}`))
+      ) {
+        // eslint-disable-next-line no-console
+        console.log('Aborting rollback procedure');
+        return 1;
+      }
+
+      for (const action of selected) {
+        try {
+          await action.run();
+        } catch (err) {
+          console.error(
+            `Error: Failed to ${action.description[0].toLowerCase()}${action.description.slice(1)}: ${err}`
+          );
           return 1;
         }
-      } catch (err) {
-        console.error(`Error: Failed to read CHANGELOG: ${err}`);
+      }
+    }
+
+    // eslint-disable-next-line no-console
+    console.log(`Successfully rolled back release ${version}`);
+    return 0;
+  }
+
+  /**
+   * Make sure the local branch is up-to-date with the remote
+   *
+   * @param context - the release context
+   * @returns the exit status of the step
+   */
+  private async updateBranch(context: ReleaseContext): Promise<number> {
+    const { branch } = context;
+    const { remote } = this.config.release;
+
+    this.banner(`Updating local branch ${branch} from ${remote}`);
+    await this.git.checkout(branch);
+    await this.git.pull(remote, branch);
+    return 0;
+  }
+
+  /**
+   * Generate the CHANGELOG entry for the version from the commits since the
+   * previous release, if requested and there is no entry already, and push it
+   * to the release branch on the remote.
+   *
+   * @param context - the release context
+   * @returns the exit status of the step
+   */
+  private async changelog(context: ReleaseContext): Promise<number> {
+    const { branch, versionNum, generateChangelog } = context;
+    const { remote, tagPrefix } = this.config.release;
+    if (!generateChangelog) {
+      return 0;
+    }
+
+    const file = 'CHANGELOG.md';
+    const changelog = (await isExistingFile(file)) ? await readFile(file, 'utf8') : '';
+    if (hasSection(changelog, versionNum)) {
+      this.log(`CHANGELOG already contains an entry for version ${versionNum}`);
+      return 0;
+    }
+
+    this.banner(`Generating CHANGELOG entry for version ${versionNum}`);
+    const previousTag = await findPreviousVersionTag(this.git, tagPrefix);
+    const section = formatSection(versionNum, await getCommitsSince(this.git, previousTag));
+    await this.update(`Add the entry for version ${versionNum} to ${file}`, () =>
+      writeSection(file, versionNum, section)
+    );
+
+    await this.git.add(file);
+    await this.git.commit(`Update CHANGELOG for ${versionNum}`, [file]);
+    await this.git.push(remote, branch);
+    return 0;
+  }
+
+  /**
+   * Determine which workspace packages are to be released, if this is a
+   * monorepo, along with their versions
+   *
+   * @param context - the release context
+   * @returns the exit status of the step
+   */
+  private async planWorkspaces(context: ReleaseContext): Promise<number> {
+    const { versionNum } = context;
+    context.workspaces = undefined;
+    context.workspacesBumped = false;
+
+    const patterns = getWorkspacePatterns(JSON.parse(await readFile('package.json', 'utf8')));
+    if (patterns === undefined) {
+      return 0;
+    }
+
+    // When versioning independently the type of release of each package is
+    // suggested by its conventional commits
+    this.banner(`Determining the workspace packages to release`);
+    const { workspaces } = this.config;
+    const releases = await planWorkspaceRelease(
+      this.git,
+      workspaces,
+      await findWorkspacePackages(patterns),
+      versionNum,
+      async (pkg, suggested) =>
+        (await this.answers.getInput(
+          `release-type-${pkg.name}`,
+          `What type of release is ${pkg.name} ${pkg.versionNum}`,
+          WORKSPACE_RELEASE_TYPES,
+          suggested
+        )) as ReleaseType
+    );
+
+    for (const { tag } of releases) {
+      if (!(await checkTagDoesNotExist(this.git, tag))) {
         return 1;
       }
     }
 
-    // Make sure the pre-commit checks pass before continuing
+    const width = Math.max(0, ...releases.map((release) => release.name.length));
+    const lines = releases.map(
+      (release) =>
+        `  ${release.name.padEnd(width)}  ${release.previousVersionNum} -> ${release.versionNum}  (${release.reason})`
+    );
+    this.log(
+      lines.length === 0
+        ? 'No workspace packages have changed since they were last released'
+        : `Releasing workspace packages with ${workspaces.versioning} versioning:\n${lines.join('\n')}`
+    );
+    context.workspaces = releases;
+    return 0;
+  }
+
+  /**
+   * Update the versions of the workspace packages being released, along with
+   * the dependencies on them, and push the change to the release branch
+   *
+   * @param context - the release context
+   * @returns the exit status of the step
+   */
+  private async bumpWorkspaces(context: ReleaseContext): Promise<number> {
+    const { branch, version, workspaces } = context;
+    const { remote } = this.config.release;
+    if (workspaces === undefined || workspaces.length === 0) {
+      return 0;
+    }
+
+    this.banner(`Updating the versions of the workspace packages for ${version}`);
+    const patterns = getWorkspacePatterns(JSON.parse(await readFile('package.json', 'utf8'))) as string[];
+    const files = await applyWorkspaceRelease(await findWorkspacePackages(patterns), workspaces, !this.plan);
+    for (const file of files) {
+      this.plan?.addAction(`Update the versions in ${file}`);
+    }
+
+    // The versions may have been updated by an earlier attempt at this step
+    if (files.length > 0) {
+      await this.git.add(...files);
+      await this.git.commit(`Bump versions of workspace packages for ${version}`);
+      await this.git.push(remote, branch);
+    }
+
+    context.workspacesBumped = this.plan === undefined;
+    return 0;
+  }
+
+  /**
+   * Make sure the package manifest and CHANGELOG match the version
+   *
+   * @param context - the release context
+   * @returns the exit status of the step
+   */
+  private async checkManifest(context: ReleaseContext): Promise<number> {
+    const { versionNum, ignoreChangelog, generateChangelog } = context;
+
+    // Make sure the version in package.json matches the version being released
+    const manifest = await checkManifestVersion(versionNum);
+    if (manifest === undefined) {
+      return 1;
+    }
+    context.packageName = manifest.name;
+    context.packagePrivate = manifest.private === true;
+
+    // Make sure the CHANGELOG contains an entry for this version. If it is
+    // being generated then it can only be missing on a dry-run.
+    if (!ignoreChangelog && !generateChangelog && !(await checkChangelogEntry(versionNum))) {
+      return 1;
+    }
+
+    // The same checks are made for each workspace package being released,
+    // although their versions will only have been updated if not a dry-run and
+    // they need only have a CHANGELOG entry if they have a CHANGELOG
+    for (const pkg of context.workspaces ?? []) {
+      if (context.workspacesBumped === true && (await checkManifestVersion(pkg.versionNum, pkg.dir)) === undefined) {
+        return 1;
+      }
+      if (
+        !ignoreChangelog &&
+        (await isExistingFile(path.join(pkg.dir, 'CHANGELOG.md'))) &&
+        !(await checkChangelogEntry(pkg.versionNum, pkg.dir))
+      ) {
+        return 1;
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Make sure the pre-commit checks pass before continuing
+   *
+   * @param context - the release context
+   * @returns the exit status of the step
+   */
+  private async preCommit(context: ReleaseContext): Promise<number> {
+    const { branch, version } = context;
+
     this.banner(`Checking version ${version} passes pre-commit checks`);
-    exitStatus = await executeCmd('yarn', 'pre-commit');
+    let exitStatus = await this.preCommitChecks(branch);
+
+    // Along with any workspace packages being released that have their own
+    for (const pkg of context.workspaces ?? []) {
+      const manifest = JSON.parse(await readFile(path.join(pkg.dir, 'package.json'), 'utf8'));
+      if (exitStatus === 0 && manifest.scripts?.['pre-commit'] !== undefined) {
+        exitStatus = await this.preCommitChecks(branch, pkg.dir);
+      }
+    }
+    return exitStatus;
+  }
+
+  /**
+   * Switch to the target branch and pull the latest from the remote
+   *
+   * @param _context - the release context
+   * @returns the exit status of the step
+   */
+  private async updateTarget(_context: ReleaseContext): Promise<number> {
+    const { targetBranch, remote } = this.config.release;
+
+    this.banner(`Ensuring ${targetBranch} is up to date`);
+    await this.git.checkout(targetBranch);
+    await this.git.pull(remote, targetBranch);
+    return 0;
+  }
+
+  /**
+   * Perform the merge into the target branch ensuring that a merge arrow is
+   * created
+   *
+   * @param context - the release context
+   * @returns the exit status of the step
+   */
+  private async merge(context: ReleaseContext): Promise<number> {
+    const { branch } = context;
+    const { targetBranch } = this.config.release;
+
+    this.banner(`Merging ${branch} into ${targetBranch}`);
+    if (!(await this.git.merge(branch))) {
+      console.error(`Error: Failed to merge ${branch} into ${targetBranch} due to conflicts`);
+      return 1;
+    }
+    return 0;
+  }
+
+  /**
+   * Make sure the pre-commit checks pass after the merge
+   *
+   * @param _context - the release context
+   * @returns the exit status of the step
+   */
+  private async postMergeChecks(_context: ReleaseContext): Promise<number> {
+    const { targetBranch } = this.config.release;
+
+    this.banner(`Checking ${targetBranch} passes pre-commit checks after merge`);
+    const exitStatus = await this.preCommitChecks(targetBranch);
     if (exitStatus !== 0) {
-      console.error(`Error: Pre-commit checks failed on ${branch}`);
+      console.error(`Error: Issue "jetsam release rollback" to undo the merge into ${targetBranch}`);
       return exitStatus ?? 1;
     }
+    return 0;
+  }
 
-    if (!dryRun) {
-      // Switch to master and pull the latest from the origin
-      this.banner(`Ensuring master is up to date`);
-      exitStatus = await executeCmd('git', 'checkout', 'master');
-      if (exitStatus !== 0) {
-        console.error(`Error: Failed to change branch to master`);
-        return exitStatus ?? 1;
-      }
+  /**
+   * Push the merge result to the remote after confirming with the user
+   *
+   * @param context - the release context
+   * @returns the exit status of the step
+   */
+  private async push(context: ReleaseContext): Promise<number> {
+    const { version } = context;
+    const { targetBranch, remote } = this.config.release;
 
-      exitStatus = await executeCmd('git', 'pull', '--rebase');
-      if (exitStatus !== 0) {
-        console.error(`Error: Failed to pull latest changes to master from origin`);
-        return exitStatus ?? 1;
+    // Everything looks good so confirm with the user before pushing the merge
+    // to the remote.
+    if (!(await this.confirm('push', `Pushing release "${version}" to ${remote} ... continue`))) {
+      this.log('Aborting release procedure');
+      return 1;
+    }
+
+    this.banner(`Pushing result of merging ${version} to ${remote}`);
+    await this.git.push(remote, targetBranch);
+    return 0;
+  }
+
+  /**
+   * Create the version tag and push it to the remote after confirming with the
+   * user
+   *
+   * @param context - the release context
+   * @returns the exit status of the step
+   */
+  private async tag(context: ReleaseContext): Promise<number> {
+    const { version } = context;
+    const { remote, signTags } = this.config.release;
+
+    // Confirm whether we can tag the release
+    if (!(await this.confirm('tag', `Tagging release "${version}" ... continue`))) {
+      this.log('Aborting release procedure');
+      return 1;
+    }
+
+    // Each workspace package being released is tagged as well, with the notes
+    // from its own CHANGELOG
+    const tags = [{ tag: version, versionNum: context.versionNum, dir: '.' }, ...(context.workspaces ?? [])];
+
+    // The tags may have been created locally before an earlier attempt to push
+    // them failed
+    this.banner(`Tagging release ${version}`);
+    for (const { tag, versionNum, dir } of tags) {
+      if (!(await this.git.tagExists(tag))) {
+        await createReleaseTag(this.git, tag, await readReleaseNotes(versionNum, dir), signTags);
       }
+    }
+
+    await this.git.push(remote, ...tags.map(({ tag }) => tag));
+    return 0;
+  }
 
-      // Perform the merge into master ensuring that a merge arrow is created
-      this.banner(`Merging ${branch} into master`);
-      exitStatus = await executeCmd('git', 'merge', '--no-ff', '--no-edit', branch);
+  /**
+   * Create a bundle for the release
+   *
+   * @param context - the release context
+   * @returns the exit status of the step
+   */
+  private async bundle(context: ReleaseContext): Promise<number> {
+    const { version } = context;
+    const { release } = this.config;
+
+    this.banner(`Building release bundle for ${version}`);
+    for (const { packDir, bundle, name, versionNum, tag, prerelease } of await this.getBundles(context)) {
+      await this.update(`Create the directory ${path.dirname(bundle)}`, () => mkdirp(path.dirname(bundle)));
+      const exitStatus = await this.exec(`Pack ${packDir}`, 'yarn', '--cwd', packDir, 'pack', '--filename', bundle);
       if (exitStatus !== 0) {
-        console.error(`Error: Failed to merge ${branch} into master`);
+        console.error(`Error: Failed to create release bundle "${bundle}"`);
         return exitStatus ?? 1;
       }
 
-      // Make sure the pre-commit checks pass after the merge
-      this.banner(`Checking master passes pre-commit checks after merge`);
-      exitStatus = await executeCmd('yarn', 'pre-commit');
-      if (exitStatus !== 0) {
-        console.error(`Error: Pre-commit checks failed on master after merge`);
-        console.error(`Error: Issue "git reset --hard origin/master" to undo merge`);
-        return exitStatus ?? 1;
+      // Record the details of the bundle, in particular the dist-tag it is to be
+      // published with so pre-releases are not installed by default
+      const distTag = getDistTag(release, prerelease);
+      await this.update(`Write the metadata of ${bundle}`, () =>
+        writeBundleMetadata(bundle, { name, version: versionNum, tag, prerelease, distTag })
+      );
+      this.log(`Release bundle ${bundle} is to be published with dist-tag "${distTag}"`);
+    }
+    return 0;
+  }
+
+  /**
+   * Write the release notes for the version, and for each workspace package
+   * being released, from the CHANGELOG alongside the release bundle
+   *
+   * @param context - the release context
+   * @returns the exit status of the step
+   */
+  private async releaseNotes(context: ReleaseContext): Promise<number> {
+    const { versionNum, version } = context;
+    const { release } = this.config;
+
+    this.banner(`Writing release notes for ${version}`);
+    const packages = [
+      { versionNum, dir: '.', bundle: getBundlePath(release, context.packageName as string, version) },
+      ...(context.workspaces ?? []).map((pkg) => ({
+        versionNum: pkg.versionNum,
+        dir: pkg.dir,
+        bundle: getWorkspaceBundlePath(release, pkg.name, pkg.versionNum),
+      })),
+    ];
+    for (const pkg of packages) {
+      const notes = await readReleaseNotes(pkg.versionNum, pkg.dir);
+      if (notes === undefined) {
+        this.log(`There are no release notes for ${pkg.versionNum} in ${path.join(pkg.dir, 'CHANGELOG.md')}`);
+        continue;
       }
 
-      // Everything looks good so confirm with the user before pushing the merge
-      // to the origin.
-      if (!(await confirm(`Pushing release "${version}" to origin ... continue`))) {
+      const file = getReleaseNotesPath(pkg.bundle);
+      await this.update(`Write the release notes for ${pkg.versionNum} to ${file}`, async () => {
+        await writeReleaseNotes(file, notes);
         // eslint-disable-next-line no-console
-        console.log('Aborting release procedure');
-        return 1;
-      }
+        console.log(`Release notes for ${pkg.versionNum} written to ${file}`);
+      });
+    }
+    return 0;
+  }
 
-      // Push the merge result to origin
-      this.banner(`Pushing result of merging ${version} to the origin`);
-      exitStatus = await executeCmd('git', 'push');
-      if (exitStatus !== 0) {
-        console.error(`Error: Pre-commit checks failed on master after merge`);
-        console.error(`Error: Issue "git reset --hard origin/master" to undo merge`);
-        return exitStatus ?? 1;
+  /**
+   * Verify the contents of the release bundle before it is tagged and published
+   *
+   * @param context - the release context
+   * @returns the exit status of the step
+   */
+  private async verifyPack(context: ReleaseContext): Promise<number> {
+    const { version } = context;
+    const { pack } = this.config;
+
+    this.banner(`Verifying release bundle for ${version}`);
+    let verified = true;
+    for (const { bundle } of await this.getBundles(context)) {
+      // The bundle is not built by a dry-run so there is nothing to inspect
+      if (this.plan !== undefined) {
+        this.plan.addAction(`Verify the contents of ${bundle}`);
+        continue;
       }
+      verified = printPackReport(await inspectPack(bundle, pack)) && verified;
+    }
+    return verified ? 0 : 1;
+  }
 
-      // Confirm whether we can tag the release
-      if (!(await confirm(`Tagging release "${version}" ... continue`))) {
-        // eslint-disable-next-line no-console
-        console.log('Aborting release procedure');
+  /**
+   * Publish the release bundle, if requested, after confirming with the user
+   *
+   * @param context - the release context
+   * @returns the exit status of the step
+   */
+  private async publish(context: ReleaseContext): Promise<number> {
+    const { version, publish, registry } = context;
+    const { release } = this.config;
+    if (!publish) {
+      return 0;
+    }
+
+    this.banner(`Publishing release bundle for ${version}`);
+    const bundles = await this.getBundles(context);
+    for (const { name, versionNum } of bundles) {
+      if (!(await checkNotPublished(name, versionNum, registry))) {
         return 1;
       }
+    }
 
-      // Create the version tag and push to the origin
-      this.banner(`Tagging release ${version}`);
-      exitStatus = await executeCmd('git', 'tag', version);
-      if (exitStatus !== 0) {
-        console.error(`Error: Failed to create local tag "${version}"`);
-        return exitStatus ?? 1;
-      }
-      exitStatus = await executeCmd('git', 'push', 'origin', version);
-      if (exitStatus !== 0) {
-        console.error(`Error: Failed to push local tag "${version}" to origin`);
-        return exitStatus ?? 1;
+    const where = describeRegistry(registry);
+    const packages = bundles.map(({ name, versionNum, prerelease }) => {
+      return `${name}@${versionNum} with dist-tag "${getDistTag(release, prerelease)}"`;
+    });
+    if (!(await this.confirm('publish', `Publishing ${packages.join(', ')} to ${where} ... continue`))) {
+      this.log('Aborting release procedure');
+      return 1;
+    }
+
+    for (const { bundle, prerelease } of bundles) {
+      const distTag = getDistTag(release, prerelease);
+      if (this.plan !== undefined) {
+        this.plan.addAction(`Publish ${bundle}`, getPublishCommand(bundle, distTag, this.config.publish, registry));
+        continue;
       }
 
-      // Create a bundle for this release
-      this.banner(`Building release bundle for ${version}`);
-      const bundle = `releases/${manifest.name}-${version}.tgz`;
-      await mkdirp(path.dirname(bundle));
-      exitStatus = await executeCmd('yarn', '--cwd', 'dist', 'pack', '--filename', bundle);
+      const exitStatus = await publishBundle(bundle, distTag, this.config.publish, registry);
       if (exitStatus !== 0) {
-        console.error(`Error: Failed to create release bundle "${bundle}"`);
-        return exitStatus ?? 1;
+        return exitStatus;
       }
     }
+    return 0;
+  }
+
+  /**
+   * Get the bundles built by the release, that is, one for the package being
+   * released and one for each workspace package being released. The root of a
+   * monorepo is only bundled if it is not private.
+   *
+   * @param context - the release context
+   * @returns the bundles
+   */
+  private async getBundles(context: ReleaseContext): Promise<PlannedBundle[]> {
+    const { versionNum, version, prerelease, workspaces } = context;
+    const { release } = this.config;
+
+    const bundles: PlannedBundle[] = [];
+    if (workspaces === undefined || context.packagePrivate !== true) {
+      const name = context.packageName as string;
+      const bundle = getBundlePath(release, name, version);
+      bundles.push({ packDir: 'dist', bundle, name, versionNum, tag: version, prerelease });
+    }
 
-    // Potentially setup the next release branch
+    // Workspace packages are packed from their dist directory if they have one
+    for (const pkg of workspaces ?? []) {
+      const distDir = path.join(pkg.dir, 'dist');
+      bundles.push({
+        packDir: (await isExistingDir(distDir)) ? distDir : pkg.dir,
+        bundle: getWorkspaceBundlePath(release, pkg.name, pkg.versionNum),
+        name: pkg.name,
+        versionNum: pkg.versionNum,
+        tag: pkg.tag,
+        prerelease: Version.parse(pkg.versionNum).isPrerelease,
+      });
+    }
+    return bundles;
+  }
+
+  /**
+   * Determine the version of the next release, if any, and make sure its
+   * branch does not already exist
+   *
+   * @param context - the release context
+   * @returns the exit status of the step
+   */
+  private async planNextRelease(context: ReleaseContext): Promise<number> {
+    const { versionNum, prerelease } = context;
+
+    // A pre-release is most likely to be followed by another
     this.banner(`Creating branch for next release`);
-    const choices = ['major', 'minor', 'patch', 'none'];
-    const nextReleaseType = await getInput('What is the expected type of the next release', choices, 'minor');
+    const nextReleaseType = await this.answers.getInput(
+      'next-release',
+      'What is the expected type of the next release',
+      NEXT_RELEASE_TYPES,
+      prerelease ? 'prerelease' : 'minor'
+    );
+    context.nextReleaseType = nextReleaseType;
+    context.nextVersionNum = undefined;
 
     // We are done if there is no next branch to create
     if (nextReleaseType === 'none') {
-      // eslint-disable-next-line no-console
-      console.log(`Successfully created release ${version}`);
       return 0;
     }
 
-    // Use semver to get the next version number based on this input
-    const nextVersionNum = await getOutputFromCmd('semver', '-i', nextReleaseType, versionNum);
-    if (nextVersionNum === undefined) {
-      console.error('Error: Failed to calculate the next releases number');
-      return 1;
-    }
-    const nextVersion = `v${nextVersionNum}`;
+    // Get the next version number based on this input
+    const preid = this.preid ?? this.config.release.preid;
+    const nextVersionNum = Version.parse(versionNum)
+      .inc(nextReleaseType as ReleaseType, preid)
+      .toString();
+    const { release } = this.config;
+    const nextVersion = getReleaseTag(release, nextVersionNum);
 
     // Make sure the new branch does not exist locally
-    const newBranch = `release/${nextVersion}`;
-    exitStatus = await executeCmdSilently('git', 'show-branch', newBranch);
-    if (exitStatus === 0) {
+    const newBranch = getReleaseBranch(release, nextVersionNum);
+    if (await this.git.branchExists(newBranch)) {
       console.error(`Error: A branch for release "${nextVersion}" already exists locally`);
       return 1;
     }
 
-    // Make sure the new branch does not exist on the origin
-    exitStatus = await executeCmdSilently('git', 'show-branch', `remotes/origin/${newBranch}`);
-    if (exitStatus === 0) {
-      console.error(`Error: A branch for release "${nextVersion}" already exists on the origin`);
+    // Make sure the new branch does not exist on the remote
+    if (await this.git.remoteBranchExists(release.remote, newBranch)) {
+      console.error(`Error: A branch for release "${nextVersion}" already exists on ${release.remote}`);
       return 1;
     }
 
-    if (!dryRun) {
-      // Create the next release branch
-      this.banner(`Creating release branch for ${nextVersion}`);
-      exitStatus = await executeCmd('git', 'checkout', '-b', newBranch);
-      if (exitStatus !== 0) {
-        console.error(`Error: Failed to create release branch ${newBranch}`);
-        return exitStatus ?? 1;
-      }
+    context.nextVersionNum = nextVersionNum;
+    return 0;
+  }
+
+  /**
+   * Create the branch for the next release, bump its version and push it to
+   * the remote
+   *
+   * @param context - the release context
+   * @returns the exit status of the step
+   */
+  private async createNextBranch(context: ReleaseContext): Promise<number> {
+    const { nextVersionNum } = context;
+    if (nextVersionNum === undefined) {
+      return 0;
+    }
+    const { release } = this.config;
+    const nextVersion = getReleaseTag(release, nextVersionNum);
+    const newBranch = getReleaseBranch(release, nextVersionNum);
+
+    // Create the next release branch unless it was created by an earlier
+    // attempt at this step
+    this.banner(`Creating release branch for ${nextVersion}`);
+    if (await this.git.branchExists(newBranch)) {
+      await this.git.checkout(newBranch);
+    } else {
+      await this.git.createBranch(newBranch);
 
       // Bump the version number for the release branch
-      exitStatus = await executeCmd(
+      const exitStatus = await this.exec(
+        `Update the version in package.json to ${nextVersionNum}`,
         'yarn',
         'version',
         '--no-git-tag-version',
@@ -336,40 +1288,106 @@ class PerformRelease extends SubCommand {
       }
 
       // Commit the change to package.json
-      exitStatus = await executeCmd('git', 'commit', 'package.json', '-m', `Bump version to ${nextVersionNum}`);
-      if (exitStatus !== 0) {
-        console.error(`Error: Failed to commit version bump to package.json`);
-        return exitStatus ?? 1;
-      }
-
-      // And get confirmation before pushing the new branch
-      if (!(await confirm(`Pushing new branch "${newBranch}" to origin ... continue`))) {
-        // eslint-disable-next-line no-console
-        console.log('Aborting release procedure');
-        return 1;
-      }
+      await this.git.commit(`Bump version to ${nextVersionNum}`, ['package.json']);
+    }
 
-      // Push the branch to the origin
-      exitStatus = await executeCmd('git', 'push', '--set-upstream', 'origin', newBranch);
-      if (exitStatus !== 0) {
-        console.error(`Error: Failed to push branch ${newBranch} to origin`);
-        return exitStatus ?? 1;
-      }
+    // And get confirmation before pushing the new branch
+    if (
+      !(await this.confirm('push-next-branch', `Pushing new branch "${newBranch}" to ${release.remote} ... continue`))
+    ) {
+      this.log('Aborting release procedure');
+      return 1;
     }
 
-    // eslint-disable-next-line no-console
-    console.log(`Successfully created release ${version}`);
+    // Push the branch to the remote
+    await this.git.pushUpstream(release.remote, newBranch);
     return 0;
   }
 
   /**
-   * Displays a banner to the console
+   * Display a banner for what a step is doing, unless recording a plan
    *
    * @param text - the text to display in the banner
    */
-  private banner(text: string) {
-    // eslint-disable-next-line no-console
-    console.log(`\n${'#'.repeat(78)}\n# ${text}\n#\n`);
+  private banner(text: string): void {
+    if (this.plan === undefined) {
+      banner(text);
+    }
+  }
+
+  /**
+   * Display a message from a step, which is recorded as a note in the plan of
+   * a dry-run
+   *
+   * @param message - the message
+   */
+  private log(message: string): void {
+    if (this.plan !== undefined) {
+      this.plan.addNote(message);
+    } else {
+      // eslint-disable-next-line no-console
+      console.log(message);
+    }
+  }
+
+  /**
+   * Confirm that the release is to continue, recording the question in the
+   * plan of a dry-run where it is answered with yes unless answered otherwise
+   *
+   * @param name - the name of the question
+   * @param prompt - the prompt to display if the user needs to be asked
+   * @returns true if the question is positively confirmed
+   */
+  private async confirm(name: string, prompt: string): Promise<boolean> {
+    this.plan?.addAction(`Confirm: ${prompt}`);
+    return this.answers.confirm(name, prompt);
+  }
+
+  /**
+   * Run a command, or record it in the plan of a dry-run
+   *
+   * @param description - a description of what the command does
+   * @param cmd - the command
+   * @param args - the arguments of the command
+   * @returns the exit status of the command
+   */
+  private async exec(description: string, cmd: string, ...args: string[]): Promise<number> {
+    if (this.plan !== undefined) {
+      this.plan.addAction(description, [cmd, ...args]);
+      return 0;
+    }
+    return executeCmd(cmd, ...args);
+  }
+
+  /**
+   * Run the pre-commit checks, or record them in the plan of a dry-run
+   *
+   * @param branch - the branch that is checked out
+   * @param dir - the directory of the package
+   * @returns the exit status of the checks
+   */
+  private async preCommitChecks(branch: string, dir = '.'): Promise<number> {
+    if (this.plan !== undefined) {
+      const where = dir === '.' ? '' : ` in ${dir}`;
+      this.plan.addAction(`Run the pre-commit checks on ${branch}${where}`, getPreCommitCommand(dir));
+      return 0;
+    }
+    return runPreCommitChecks(branch, dir);
+  }
+
+  /**
+   * Update a file, or record the update in the plan of a dry-run
+   *
+   * @param description - a description of the update
+   * @param update - performs the update
+   * @returns a promise resolved when complete
+   */
+  private async update(description: string, update: () => Promise<unknown>): Promise<void> {
+    if (this.plan !== undefined) {
+      this.plan.addAction(description);
+    } else {
+      await update();
+    }
   }
 }
 
@@ -0,0 +1,100 @@
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Arguments, Argv } from 'yargs';
+
+import { inspectPack, printPackReport } from './PackVerification';
+import { loadProjectConfig } from './ProjectConfig';
+import { executeCmd, isExistingFile } from './SubCommandHelpers';
+import { SubCommand } from './SubCommand';
+
+/**
+ * A `jetsam` sub-command that is used to verify the contents of the bundle
+ * packed from the distribution of the package.
+ */
+class VerifyPack extends SubCommand {
+  /**
+   * Get the name of the sub-command to be passed to `jetsam`
+   *
+   * @returns the name of the sub-command
+   */
+  public name(): string {
+    return 'verify-pack';
+  }
+
+  /**
+   * Provides a description of the sub-command that will appear in the help
+   *
+   * @returns a description of what the sub-command does
+   */
+  public description(): string {
+    return 'Verify the contents of the bundle packed from the distribution';
+  }
+
+  /**
+   * Called to get a function that will be invoked to add the required
+   * configuration to `yargs`. The function will be passed a `yargs` argv
+   * instance that it can use to configure the command-line it supports.
+   *
+   * @returns the function to call to configure the sub-command
+   */
+  public configure(): (yargs: Argv) => Argv {
+    return (yargs: Argv) =>
+      yargs
+        .option('bundle', {
+          alias: 'b',
+          description: 'The bundle to verify, otherwise one is packed from the distribution',
+          type: 'string',
+        })
+        .option('dir', {
+          description: 'The directory containing the distribution to pack',
+          default: 'dist',
+        })
+        .option('max-size', {
+          description: 'The largest the unpacked contents may be, eg: 500kB, defaults to the pack.maxSize setting',
+          type: 'string',
+        });
+  }
+
+  /**
+   * Called to execute the sub-command given the command-line arguments passed
+   * to `jetsam`.
+   *
+   * @param args - the command-line arguments
+   * @returns the exit status to use for `jetsam`
+   */
+  public async execute(args: Arguments): Promise<number> {
+    let tmpDir: string | undefined;
+    try {
+      const config = await loadProjectConfig();
+
+      // Pack the distribution into a temporary directory if not given a bundle
+      let bundle = args.bundle as string | undefined;
+      if (bundle === undefined) {
+        tmpDir = await mkdtemp(path.join(os.tmpdir(), 'jetsam-'));
+        bundle = path.join(tmpDir, 'bundle.tgz');
+        const exitStatus = await executeCmd('yarn', '--cwd', args.dir, 'pack', '--filename', bundle);
+        if (exitStatus !== 0) {
+          console.error(`Error: Failed to pack ${args.dir}`);
+          return exitStatus;
+        }
+      } else if (!(await isExistingFile(bundle))) {
+        console.error(`Error: The bundle ${bundle} does not exist`);
+        return 1;
+      }
+
+      const maxSize = (args.maxSize as string | undefined) ?? config.pack.maxSize;
+      const report = await inspectPack(bundle, { ...config.pack, maxSize });
+      return printPackReport(report) ? 0 : 1;
+    } catch (err) {
+      console.error(`Error: Failed to verify the bundle: ${err}`);
+      return 1;
+    } finally {
+      if (tmpDir !== undefined) {
+        await rm(tmpDir, { recursive: true, force: true });
+      }
+    }
+  }
+}
+
+export default new VerifyPack();